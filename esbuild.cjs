@@ -32,7 +32,8 @@ async function traverse (dir, accumulator = []) {
 }
 // endregion
 
-traverse('src').then(entryPoints => {
+traverse('src').then(files => {
+  const entryPoints = files.filter(file => !file.endsWith('.test.ts'))
   // ES-modules unminified
   esbuild.build({
     entryPoints,
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { CodeGrammar, CodeTokenType } from 'components/code-grammar'
+
+/** Highlighted tokens of the code as `[type, text]`, skipping unhighlighted text */
+function highlights (language: string, code: string): Array<[CodeTokenType, string]> {
+  const tokens = CodeGrammar.get(language)!.tokenize(code)
+  expect(tokens.map(token => token.text).join('')).toBe(code)
+  return tokens.flatMap(({ text, type }) => type === null || text.trim() === '' ? [] : [[type, text]])
+}
+
+describe('CodeGrammar', () => {
+  it('looks up grammars by any of their names, case-insensitively', () => {
+    expect(CodeGrammar.get('TS')).toBe(CodeGrammar.get('javascript'))
+    expect(CodeGrammar.get('brainfuck')).toBeNull()
+  })
+
+  it('registers grammars from rules', () => {
+    CodeGrammar.register('ini', CodeGrammar.fromRules([
+      { type: 'property', pattern: /^\w+(?==)/m },
+      { type: 'operator', pattern: /=/ }
+    ]))
+
+    expect(highlights('ini', 'a=1\nb=2')).toEqual([['property', 'a'], ['operator', '='], ['property', 'b'], ['operator', '=']])
+  })
+
+  it('splits tokens into lines', () => {
+    expect(CodeGrammar.lines([{ text: 'a\nb', type: 'string' }, { text: 'c', type: null }])).toEqual([
+      [{ text: 'a', type: 'string' }],
+      [{ text: 'b', type: 'string' }, { text: 'c', type: null }]
+    ])
+  })
+
+  it('highlights JSON', () => {
+    expect(highlights('json', '{"a": [1.5, "b", null]}')).toEqual([
+      ['punctuation', '{'], ['property', '"a"'], ['punctuation', ':'], ['punctuation', '['], ['number', '1.5'], ['punctuation', ','],
+      ['string', '"b"'], ['punctuation', ','], ['constant', 'null'], ['punctuation', ']'], ['punctuation', '}']
+    ])
+  })
+
+  it('highlights YAML, including dashes of nested sequences', () => {
+    expect(highlights('yaml', '---\nkey: yes # note\nlist:\n  - - a: 1\n    - &ref "x"')).toEqual([
+      ['meta', '---'], ['property', 'key'], ['punctuation', ':'], ['constant', 'yes'], ['comment', '# note'],
+      ['property', 'list'], ['punctuation', ':'],
+      ['punctuation', '-'], ['punctuation', '-'], ['property', 'a'], ['punctuation', ':'], ['number', '1'],
+      ['punctuation', '-'], ['variable', '&ref'], ['string', '"x"']
+    ])
+  })
+
+  it('highlights TypeScript', () => {
+    expect(highlights('ts', 'const n: number = f(x.y) // hi')).toEqual([
+      ['keyword', 'const'], ['punctuation', ':'], ['type', 'number'], ['operator', '='], ['function', 'f'], ['punctuation', '('],
+      ['punctuation', '.'], ['property', 'y'], ['punctuation', ')'], ['comment', '// hi']
+    ])
+  })
+
+  it('highlights shell commands', () => {
+    expect(highlights('sh', 'if sudo ls -la "$HOME"; then echo $USER 2; fi')).toEqual([
+      ['keyword', 'if'], ['function', 'sudo'], ['function', 'ls'], ['constant', '-la'], ['string', '"$HOME"'], ['operator', ';'],
+      ['keyword', 'then'], ['function', 'echo'], ['variable', '$USER'], ['number', '2'], ['operator', ';'], ['keyword', 'fi']
+    ])
+  })
+
+  it('highlights diffs', () => {
+    expect(highlights('diff', '--- a/x\n+++ b/x\n@@ -1 +1 @@\n-old\n+new\n same')).toEqual([
+      ['meta', '--- a/x'], ['meta', '+++ b/x'], ['meta', '@@ -1 +1 @@'], ['deleted', '-old'], ['inserted', '+new']
+    ])
+  })
+})
@@ -0,0 +1,183 @@
+export type CodeTokenType =
+  'keyword' |
+  'string' |
+  'number' |
+  /** e.g. `true`, `null` */
+  'constant' |
+  'comment' |
+  'type' |
+  'function' |
+  /** Object keys and member accesses */
+  'property' |
+  'variable' |
+  'operator' |
+  'punctuation' |
+  /** Added lines of a diff */
+  'inserted' |
+  /** Removed lines of a diff */
+  'deleted' |
+  /** e.g. diff headers, YAML document markers, shebangs */
+  'meta'
+
+/** Part of the code, and its type if it's highlighted */
+export interface CodeToken {
+  text: string
+  type: CodeTokenType | null
+}
+
+/** Splits code into highlighted tokens. Register one with `CodeGrammar.register` to highlight another language */
+export interface CodeGrammar {
+  /** The tokens' text must add up to `code`. Tokens can span lines */
+  tokenize: (code: string) => CodeToken[]
+}
+
+/** Where `pattern` matches, the text is a token of `type` */
+export interface CodeGrammarRule {
+  type: CodeTokenType | null
+  pattern: RegExp
+}
+
+const grammars: Map<string, CodeGrammar> = new Map()
+
+export module CodeGrammar {
+  /**
+   * Grammar which matches the rules in order at each position, and takes the first match.
+   * Text which no rule matches is unhighlighted. Patterns can use `^` with the `m` flag and lookbehind for context
+   */
+  export function fromRules (rules: readonly CodeGrammarRule[]): CodeGrammar {
+    const stickyRules = rules.map(({ type, pattern }) => ({
+      type,
+      pattern: new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, '') + 'y')
+    }))
+    return {
+      tokenize: code => {
+        const tokens: CodeToken[] = []
+        const push = (text: string, type: CodeTokenType | null): void => {
+          const prev = tokens[tokens.length - 1]
+          if (prev !== undefined && prev.type === null && type === null) {
+            prev.text += text
+          } else {
+            tokens.push({ text, type })
+          }
+        }
+
+        let index = 0
+        while (index < code.length) {
+          let matched = false
+          for (const { type, pattern } of stickyRules) {
+            pattern.lastIndex = index
+            const match = pattern.exec(code)
+            if (match !== null && match[0].length > 0) {
+              push(match[0], type)
+              index += match[0].length
+              matched = true
+              break
+            }
+          }
+          if (!matched) {
+            push(code[index], null)
+            index++
+          }
+        }
+        return tokens
+      }
+    }
+  }
+
+  /** Makes the grammar available by each name, e.g. for `CodeView`'s `language`. Replaces an existing grammar with the same name */
+  export function register (names: string | readonly string[], grammar: CodeGrammar): void {
+    for (const name of typeof names === 'string' ? [names] : names) {
+      grammars.set(name.toLowerCase(), grammar)
+    }
+  }
+
+  /** The grammar registered with the name (case-insensitive), or `null` */
+  export function get (name: string): CodeGrammar | null {
+    return grammars.get(name.toLowerCase()) ?? null
+  }
+
+  /** Splits the tokens at newlines into lines of tokens */
+  export function lines (tokens: readonly CodeToken[]): CodeToken[][] {
+    const result: CodeToken[][] = [[]]
+    for (const { text, type } of tokens) {
+      text.split('\n').forEach((part, index) => {
+        if (index > 0) {
+          result.push([])
+        }
+        if (part !== '') {
+          result[result.length - 1].push({ text: part, type })
+        }
+      })
+    }
+    return result
+  }
+}
+
+const NUMBER = /-?(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|(?:\d[\d_]*)?\.?\d[\d_]*(?:[eE][+-]?\d+)?n?)\b/
+const DOUBLE_QUOTED = /"(?:[^"\\\n]|\\.)*"?/
+const SINGLE_QUOTED = /'(?:[^'\\\n]|\\.)*'?/
+
+CodeGrammar.register('json', CodeGrammar.fromRules([
+  { type: 'property', pattern: /"(?:[^"\\\n]|\\.)*"(?=\s*:)/ },
+  { type: 'string', pattern: DOUBLE_QUOTED },
+  { type: 'number', pattern: NUMBER },
+  { type: 'constant', pattern: /\b(?:true|false|null)\b/ },
+  { type: 'punctuation', pattern: /[{}[\],:]/ }
+]))
+
+CodeGrammar.register(['yaml', 'yml'], CodeGrammar.fromRules([
+  { type: 'comment', pattern: /(?<=^|\s)#.*/m },
+  { type: 'meta', pattern: /^(?:---|\.\.\.)(?=\s|$)/m },
+  { type: 'property', pattern: /(?<=^[ \t]*(?:- +)*)(?:"(?:[^"\\\n]|\\.)*"|'[^'\n]*'|[^\s#:'"[\]{},-][^#:\n]*?|-[^\s#:][^#:\n]*?)(?=[ \t]*:(?:\s|$))/m },
+  { type: 'string', pattern: DOUBLE_QUOTED },
+  { type: 'string', pattern: SINGLE_QUOTED },
+  { type: 'constant', pattern: /(?<=^|[\s:[,-])(?:true|false|yes|no|on|off|null|~)(?=[ \t]*(?:[#,\]}]|$))/im },
+  { type: 'number', pattern: /(?<=^|[\s:[,-])[-+]?(?:\d[\d_]*(?:\.\d*)?(?:[eE][+-]?\d+)?|0x[\da-fA-F]+|\.inf|\.nan)(?=[ \t]*(?:[#,\]}]|$))/im },
+  { type: 'variable', pattern: /[&*][\w-]+/ },
+  { type: 'type', pattern: /!\S*/ },
+  { type: 'punctuation', pattern: /(?<=^[ \t]*(?:- +)*)-(?=\s)|[|>][-+]?(?=[ \t]*(?:#.*)?$)|[:[\]{},?]/m }
+]))
+
+CodeGrammar.register(['typescript', 'ts', 'tsx', 'javascript', 'js', 'jsx'], CodeGrammar.fromRules([
+  { type: 'comment', pattern: /\/\/.*|\/\*[\s\S]*?(?:\*\/|$)/ },
+  { type: 'string', pattern: DOUBLE_QUOTED },
+  { type: 'string', pattern: SINGLE_QUOTED },
+  { type: 'string', pattern: /`(?:[^`\\]|\\[\s\S])*`?/ },
+  { type: 'number', pattern: /(?<![\w$])(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|(?:\d[\d_]*)?\.?\d[\d_]*(?:[eE][+-]?\d+)?n?)\b/ },
+  {
+    type: 'keyword',
+    pattern: /\b(?:abstract|as|async|await|break|case|catch|class|const|continue|debugger|declare|default|delete|do|else|enum|export|extends|finally|for|from|function|get|if|implements|import|in|instanceof|interface|is|keyof|let|module|namespace|new|of|override|private|protected|public|readonly|return|satisfies|set|static|super|switch|throw|try|type|typeof|var|void|while|with|yield)\b/
+  },
+  { type: 'constant', pattern: /\b(?:true|false|null|undefined|NaN|Infinity|this)\b/ },
+  { type: 'type', pattern: /\b(?:string|number|boolean|bigint|symbol|object|any|unknown|never)\b|\b[A-Z][\w$]*/ },
+  { type: 'function', pattern: /[A-Za-z_$][\w$]*(?=\s*(?:<[^<>()]*>)?\()/ },
+  { type: 'property', pattern: /(?<=\.\s*)[A-Za-z_$][\w$]*/ },
+  { type: null, pattern: /[A-Za-z_$][\w$]*/ },
+  { type: 'operator', pattern: /=>|[-+*/%=!<>&|^~?]+|\.\.\./ },
+  { type: 'punctuation', pattern: /[{}()[\];,.:]/ }
+]))
+
+CodeGrammar.register(['shell', 'sh', 'bash', 'zsh', 'console'], CodeGrammar.fromRules([
+  { type: 'meta', pattern: /^#!.*/ },
+  { type: 'comment', pattern: /(?<=^|\s)#.*/m },
+  { type: 'string', pattern: /'[^']*'?/ },
+  { type: 'string', pattern: /"(?:[^"\\]|\\[\s\S])*"?/ },
+  { type: 'variable', pattern: /\$(?:\{[^}\n]*\}|[A-Za-z_]\w*|[0-9@#?$!*-])/ },
+  {
+    type: 'keyword',
+    pattern: /(?<![\w-])(?:if|then|else|elif|fi|for|while|until|do|done|case|esac|in|function|return|export|local|readonly|declare|unset|select|time)(?![\w-])/
+  },
+  // The first word of a command is the program
+  { type: 'function', pattern: /(?<=(?:^|[;&|(`]|\$\(|\b(?:if|then|else|elif|do|while|until))[ \t]*(?:sudo[ \t]+)?)[\w./~+-][\w./~+-]*/m },
+  { type: 'constant', pattern: /(?<=\s)--?[\w-]+/ },
+  { type: 'number', pattern: /(?<![\w.-])\d+(?![\w.])/ },
+  { type: null, pattern: /[\w./~+-]+/ },
+  { type: 'operator', pattern: /&&|\|\||[|&;<>]+|=/ }
+]))
+
+CodeGrammar.register(['diff', 'patch'], CodeGrammar.fromRules([
+  { type: 'meta', pattern: /^(?:diff|index|new file|deleted file|similarity|rename|old mode|new mode) .*|^(?:\+\+\+|---) .*|^@@.*/m },
+  { type: 'inserted', pattern: /^[+>].*/m },
+  { type: 'deleted', pattern: /^[-<].*/m },
+  { type: 'comment', pattern: /^\\.*/m }
+]))
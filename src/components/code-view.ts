@@ -0,0 +1,103 @@
+import { BoundsSpec, ColorSpec, intrinsics, VNode } from 'core/view'
+import { CodeGrammar, CodeToken, CodeTokenType } from 'components/code-grammar'
+
+export interface CodeTheme {
+  /** Color of each token type. Unhighlighted text and types without a color are the text's default color */
+  tokens: { [Type in CodeTokenType]?: ColorSpec }
+  lineNumber: ColorSpec
+  /** Line numbers of highlighted lines */
+  highlightedLineNumber: ColorSpec
+  /** Background of highlighted lines */
+  highlight: ColorSpec
+}
+
+export const DEFAULT_CODE_THEME: CodeTheme = {
+  tokens: {
+    keyword: { lightness: 60, chroma: 60, hue: 320 },
+    string: { lightness: 65, chroma: 55, hue: 135 },
+    number: { lightness: 65, chroma: 65, hue: 55 },
+    constant: { lightness: 65, chroma: 65, hue: 55 },
+    comment: { lightness: 50, chroma: 0, hue: 0 },
+    type: { lightness: 70, chroma: 50, hue: 80 },
+    function: { lightness: 65, chroma: 50, hue: 260 },
+    property: { lightness: 65, chroma: 45, hue: 200 },
+    variable: { lightness: 65, chroma: 55, hue: 25 },
+    inserted: { lightness: 60, chroma: 65, hue: 135 },
+    deleted: { lightness: 55, chroma: 70, hue: 25 },
+    meta: { lightness: 60, chroma: 45, hue: 200 }
+  },
+  lineNumber: { lightness: 45, chroma: 0, hue: 0 },
+  highlightedLineNumber: { lightness: 85, chroma: 0, hue: 0 },
+  highlight: { lightness: 25, chroma: 20, hue: 80 }
+}
+
+/** Lines from `start` to `end`, inclusive */
+export interface CodeLineRange {
+  start: number
+  end: number
+}
+
+export interface CodeViewProps extends Omit<BoundsSpec, 'height'> {
+  key?: string
+  code: string
+  /** Name of a registered grammar (see `CodeGrammar.register`) or a custom grammar. Default is no highlighting */
+  language?: string | CodeGrammar
+  /** Whether to show line numbers in a gutter. Default is true */
+  lineNumbers?: boolean
+  /** Number of the first line, e.g. to show an excerpt. Default is 1 */
+  startLine?: number
+  /** Lines (by line number) to draw with the theme's highlight background */
+  highlight?: Array<number | CodeLineRange>
+  /** Default is `DEFAULT_CODE_THEME` */
+  theme?: CodeTheme
+  /** Columns between tab stops. Default is 4 */
+  tabSize?: number
+}
+
+/**
+ * Syntax-highlighted code with line numbers in a gutter, and highlighted lines.
+ * If `width` is set, highlights span the width and long lines are cut off.
+ */
+export function CodeView ({ code, language, lineNumbers, startLine, highlight, theme, tabSize, ...bounds }: CodeViewProps): VNode {
+  const { tokens: tokenColors, lineNumber, highlightedLineNumber, highlight: highlightColor } = theme ?? DEFAULT_CODE_THEME
+  const lines = CodeGrammar.lines(tokenizeCode(expandTabs(code, tabSize ?? 4), language))
+  const firstLine = startLine ?? 1
+  const gutterWidth = lineNumbers === false ? 0 : `${firstLine + lines.length - 1}`.length + 3
+  const fill: BoundsSpec = bounds.width === undefined ? {} : { width: '100%' }
+
+  return intrinsics.vbox(bounds, ...lines.map((tokens, index) => {
+    const number = firstLine + index
+    const isHighlighted = highlight?.some(range => typeof range === 'number' ? range === number : range.start <= number && number <= range.end) ?? false
+    const row = intrinsics.hbox({ key: 'row', ...fill },
+      lineNumbers === false
+        ? null
+        : intrinsics.text({ key: 'gutter', color: isHighlighted ? highlightedLineNumber : lineNumber }, `${`${number}`.padStart(gutterWidth - 3)} │ `),
+      intrinsics.text(
+        { key: 'code', ...bounds.width === undefined ? {} : { width: gutterWidth === 0 ? '100%' : `100% - ${gutterWidth}`, wrapMode: 'clip' } },
+        ...tokens.map(token => token.type === null || tokenColors[token.type] === undefined
+          ? token.text
+          : intrinsics.span({ color: tokenColors[token.type] }, token.text))
+      )
+    )
+    // The color infers its size from the row before it
+    return isHighlighted
+      ? intrinsics.zbox({ key: `${number}`, ...fill }, row, intrinsics.color({ color: highlightColor }))
+      : intrinsics.box({ key: `${number}`, ...fill }, row)
+  }))
+}
+
+function tokenizeCode (code: string, language: string | CodeGrammar | undefined): CodeToken[] {
+  const grammar = typeof language === 'string' ? CodeGrammar.get(language) : language
+  return grammar === undefined || grammar === null ? [{ text: code, type: null }] : grammar.tokenize(code)
+}
+
+/** Replaces tabs with spaces to the next tab stop, so columns line up in the terminal and the browser */
+function expandTabs (code: string, tabSize: number): string {
+  return code.split('\n').map(line => {
+    let result = ''
+    for (const char of line) {
+      result += char === '\t' ? ' '.repeat(tabSize - (result.length % tabSize)) : char
+    }
+    return result
+  }).join('\n')
+}
@@ -0,0 +1,7 @@
+export * from 'components/scroll'
+export * from 'components/list'
+export * from 'components/text-input'
+export * from 'components/keymap-help'
+export * from 'components/markdown'
+export * from 'components/code-grammar'
+export * from 'components/code-view'
@@ -0,0 +1,46 @@
+import { getRenderer } from 'core/component'
+import { BoundsSpec, ColorSpec, intrinsics, VNode } from 'core/view'
+import { useEffect, useStateFast } from 'core/hooks'
+
+const KEYS_COLOR: ColorSpec = 'cyan'
+const BORDER_COLOR: ColorSpec = 'gray'
+
+export interface KeymapHelpProps extends Omit<BoundsSpec, 'width' | 'height'> {
+  key?: string
+  /** Default is 'Keys' */
+  title?: string
+  /** If true (default), also lists bindings without a description */
+  showUndescribed?: boolean
+}
+
+/**
+ * Bordered overlay listing the `useKeymap` bindings which are active right now, with their descriptions.
+ * Updates when focus moves or keymaps are added or removed.
+ *
+ * Put it above the rest of the UI in a `zbox`, e.g. when `?` is pressed.
+ */
+export function KeymapHelp ({ title, showUndescribed, ...bounds }: KeymapHelpProps): VNode {
+  const renderer = getRenderer()
+  const [, setVersion] = useStateFast(0)
+  useEffect(() => {
+    let version = 0
+    return renderer.keymaps.useChange(() => setVersion(++version))
+  }, 'on-create')
+
+  const bindings = renderer.keymaps.activeBindings
+    .filter(binding => showUndescribed !== false || binding.description !== undefined)
+  return intrinsics.zbox(bounds,
+    intrinsics.vbox({ x: 2, y: 1 },
+      intrinsics.text({ key: 'title' }, title ?? 'Keys'),
+      intrinsics.hbox({ key: 'bindings', gap: 2 },
+        intrinsics.vbox({ key: 'keys' }, ...bindings.map(binding =>
+          intrinsics.text({ key: binding.keys, color: KEYS_COLOR }, binding.keys)
+        )),
+        intrinsics.vbox({ key: 'descriptions' }, ...bindings.map(binding =>
+          intrinsics.text({ key: binding.keys }, binding.description ?? '')
+        ))
+      )
+    ),
+    intrinsics.border({ style: 'rounded', color: BORDER_COLOR, width: 'prev + 4', height: 'prev + 2' })
+  )
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { intrinsics, useEffect, VNode } from 'core'
+import { VComponent } from 'core/component'
+import { List, ListProps } from 'components/list'
+import { ScrollController, useScrollController } from 'components/scroll'
+import { HeadlessRendererImpl, renderHeadless } from 'testing'
+
+interface Item {
+  id: string
+  lines: number
+}
+
+const items = (count: number, lines: number = 1): Item[] =>
+  Array.from({ length: count }, (_, i) => ({ id: `item-${i}`, lines }))
+
+/** Renders a list of `items` in a 10x5 screen, recording the ids of rows as they're created */
+function renderList (items: Item[], props: Partial<ListProps<Item>> = {}): { renderer: HeadlessRendererImpl, controller: () => ScrollController, created: string[] } {
+  let controller: ScrollController | null = null
+  const created: string[] = []
+  const Row = ({ item }: { item: Item }): VNode => {
+    useEffect(() => { created.push(item.id) }, 'on-create')
+    return intrinsics.text({}, [item.id, ...Array(item.lines - 1).fill('-')].join('\n'))
+  }
+  const renderer = renderHeadless((): VNode => {
+    controller = useScrollController()
+    return VComponent<ListProps<Item>>('list', {
+      height: 5,
+      scrollbar: false,
+      controller,
+      items,
+      getKey: item => item.id,
+      renderItem: item => VComponent('row', { item }, Row),
+      ...props
+    }, List)
+  }, {}, { width: 10, height: 5 })
+  return { renderer, controller: () => controller!, created }
+}
+
+const rows = (renderer: HeadlessRendererImpl): string[] => renderer.lines.map(line => line.trimEnd())
+
+describe('List', () => {
+  it('only constructs rows in the viewport and overscan, even with many items', () => {
+    const { renderer, created } = renderList(items(10000))
+
+    expect(rows(renderer)).toEqual(['item-0', 'item-1', 'item-2', 'item-3', 'item-4'])
+    // 5 visible rows and 2 overscan below (there are none above)
+    expect(created).toEqual(['item-0', 'item-1', 'item-2', 'item-3', 'item-4', 'item-5', 'item-6'])
+    renderer.dispose()
+  })
+
+  it('recycles rows by key as it scrolls', () => {
+    const { renderer, controller, created } = renderList(items(100))
+    created.length = 0
+
+    controller().scrollBy(0, 3)
+    renderer.tick()
+    expect(rows(renderer)).toEqual(['item-3', 'item-4', 'item-5', 'item-6', 'item-7'])
+    // Rows 1 - 6 are kept, and row 0 is out of the overscan so it's dropped
+    expect(created).toEqual(['item-7', 'item-8', 'item-9'])
+
+    controller().scrollBy(0, -3)
+    renderer.tick()
+    expect(rows(renderer)).toEqual(['item-0', 'item-1', 'item-2', 'item-3', 'item-4'])
+    expect(created).toEqual(['item-7', 'item-8', 'item-9', 'item-0'])
+    renderer.dispose()
+  })
+
+  it('scrolls to items by key and throws on unknown keys', () => {
+    const { renderer, controller } = renderList(items(100))
+
+    controller().scrollTo('item-50')
+    renderer.tick()
+    expect(controller().offset).toEqual({ x: 0, y: 46 })
+    expect(rows(renderer)[4]).toBe('item-50')
+
+    controller().scrollTo('item-10')
+    renderer.tick()
+    expect(rows(renderer)[0]).toBe('item-10')
+    expect(() => controller().scrollTo('item-100')).toThrow('list has no item with key item-100')
+    renderer.dispose()
+  })
+
+  it('corrects estimated row heights once the rows are measured', () => {
+    const { renderer, controller } = renderList(items(100, 2), { estimatedRowHeight: 1 })
+    renderer.tick()
+
+    expect(rows(renderer)).toEqual(['item-0', '-', 'item-1', '-', 'item-2'])
+    controller().scrollTo('item-3')
+    renderer.tick()
+    expect(controller().offset).toEqual({ x: 0, y: 3 })
+    expect(rows(renderer)).toEqual(['-', 'item-2', '-', 'item-3', '-'])
+    renderer.dispose()
+  })
+})
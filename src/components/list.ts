@@ -0,0 +1,154 @@
+import { getRenderer, getVComponent, VComponent } from 'core/component'
+import { intrinsics, JSXBoxAttrs, VNode } from 'core/view'
+import { useDynamicFn, useEffect, useFocus, useMemo, useState, useStateFast } from 'core/hooks'
+import { ScrollController, scrollDelta, useScrollInput } from 'components/scroll'
+
+export interface ListProps<T> extends Omit<JSXBoxAttrs, 'direction' | 'clip' | 'extend' | 'scrollOffset'> {
+  items: readonly T[]
+  renderItem: (item: T, index: number) => VNode
+  /**
+   * Identifies the item's row, so it's recycled as the list scrolls and can be passed to `scrollTo`. Default is the index.
+   * Keys are only recomputed when `items` changes, so this should depend only on the item and index
+   */
+  getKey?: (item: T, index: number) => string
+  /** Height of rows which haven't been rendered yet. Default is 1 */
+  estimatedRowHeight?: number
+  /** Rows rendered above and below the viewport. Default is 2 */
+  overscan?: number
+  /** Whether to draw a scrollbar when the rows overflow. Default is true */
+  scrollbar?: boolean
+  /** Lets another component scroll this one, see `useScrollController` */
+  controller?: ScrollController
+  /** Whether tab / shift-tab can focus the list. Default is true */
+  tabbable?: boolean
+}
+
+/** Positions of the rows, which are only recomputed when the items or row heights change */
+interface ListRowLayout {
+  /** Index of each key, so `scrollTo` doesn't search the keys */
+  indices: ReadonlyMap<string, number>
+  /** Prefix sums of the row heights */
+  tops: number[]
+  totalHeight: number
+}
+
+interface ListRowProps<T> {
+  item: T
+  index: number
+  top: number
+  renderItem: (item: T, index: number) => VNode
+}
+
+/**
+ * Scrolls through `items` like `scroll`, but only constructs components for rows intersecting the viewport,
+ * so it stays fast with many items. Rows are recycled by key as the list scrolls.
+ *
+ * Rows can have different heights: until a row is rendered it's assumed to be `estimatedRowHeight`,
+ * then its height is measured and the list updates in the next frame.
+ *
+ * The list should have a bounded height (e.g. `height` or flex `grow`), otherwise every row is rendered.
+ */
+export function List<T> ({ items, renderItem, getKey, estimatedRowHeight, overscan, scrollbar, controller, tabbable, ...boxProps }: ListProps<T>): VNode {
+  const renderer = getRenderer()
+  const component = getVComponent()
+  const offset = useState(0)
+  const [rowHeights, setRowHeights] = useStateFast<ReadonlyMap<string, number>>(new Map())
+  const [viewportHeight, setViewportHeight] = useStateFast<number | null>(null)
+  useFocus({ tabbable: tabbable ?? true })
+
+  const keys = useMemo(() => items.map((item, index) => getKey?.(item, index) ?? String(index)), [items])
+  const { indices, tops, totalHeight } = useMemo(() => layoutRows(keys, rowHeights, estimatedRowHeight ?? 1), [keys, rowHeights, estimatedRowHeight])
+  // Before the first render we don't know our height, so guess the root's
+  const height = viewportHeight ?? Math.min(renderer.getRootSize().height, totalHeight)
+
+  function scrollBy (_x: number, y: number): void {
+    const maxY = Math.max(0, totalHeight - height)
+    const newY = Math.min(Math.max(offset.v + y, 0), maxY)
+    if (newY !== offset.v) {
+      offset.v = newY
+    }
+  }
+
+  function scrollTo (key: string): void {
+    const index = indices.get(key)
+    if (index === undefined) {
+      throw new Error(`list has no item with key ${key}`)
+    }
+    const rowHeight = (index + 1 < tops.length ? tops[index + 1] : totalHeight) - tops[index]
+    scrollBy(0, scrollDelta(tops[index], rowHeight, offset.v, height))
+  }
+
+  if (controller !== undefined) {
+    controller.target = { offset: { x: 0, y: offset.v }, scrollBy, scrollTo }
+  }
+
+  useScrollInput(scrollBy, () => renderer.getRenderedRect(component))
+
+  const overscanRows = overscan ?? 2
+  const start = Math.max(0, rowAt(tops, offset.v) - overscanRows)
+  const end = Math.min(items.length, rowAt(tops, offset.v + height - 1) + 1 + overscanRows)
+  const renderedKeys = keys.slice(start, end)
+
+  // Measure rendered rows and our own height, which update the next frame if they changed
+  const measure = useDynamicFn(() => {
+    let newRowHeights: Map<string, number> | null = null
+    for (const key of renderedKeys) {
+      const row = component.children.get(key)
+      const rect = row === undefined ? null : renderer.getRenderedRect(row)
+      if (rect !== null && rowHeights.get(key) !== rect.height) {
+        newRowHeights = newRowHeights ?? new Map(rowHeights)
+        newRowHeights.set(key, rect.height)
+      }
+    }
+    if (newRowHeights !== null) {
+      setRowHeights(newRowHeights)
+    }
+
+    const rect = renderer.getRenderedRect(component)
+    if (rect !== null) {
+      setViewportHeight(rect.height)
+    }
+  })
+  useEffect(() => renderer.useAfterRender(measure), 'on-create')
+
+  return intrinsics.box({
+    ...boxProps,
+    direction: 'overlap',
+    scrollOffset: { x: 0, y: offset.v },
+    scrollbar: scrollbar ?? true
+  },
+  // Empty clipping box which spans every row, so the content (and scrollbar) include the rows which aren't rendered
+  intrinsics.box({ width: 0, height: totalHeight, clip: true, extend: true }),
+  ...renderedKeys.map((key, i) => VComponent<ListRowProps<T>>(key, { item: items[start + i], index: start + i, top: tops[start + i], renderItem }, ListRow)))
+}
+
+function ListRow<T> ({ item, index, top, renderItem }: ListRowProps<T>): VNode {
+  return intrinsics.box({ y: top }, renderItem(item, index))
+}
+
+function layoutRows (keys: string[], rowHeights: ReadonlyMap<string, number>, estimatedRowHeight: number): ListRowLayout {
+  const indices = new Map<string, number>()
+  const tops: number[] = []
+  let totalHeight = 0
+  keys.forEach((key, index) => {
+    indices.set(key, index)
+    tops.push(totalHeight)
+    totalHeight += rowHeights.get(key) ?? estimatedRowHeight
+  })
+  return { indices, tops, totalHeight }
+}
+
+/** Index of the row containing `y`, via binary search of the rows' tops */
+function rowAt (tops: number[], y: number): number {
+  let low = 0
+  let high = tops.length
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2)
+    if (tops[mid] <= y) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+  return Math.max(0, low - 1)
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { VComponent } from 'core/component'
+import { Markdown } from 'components/markdown'
+import { renderToString } from 'testing'
+
+const render = (source: string, width: number = 30): string =>
+  renderToString(() => VComponent('markdown', { width, children: source }, Markdown), {}, { width, height: 20 }).trimEnd()
+
+describe('Markdown.parse', () => {
+  it('parses headings, paragraphs and rules', () => {
+    expect(Markdown.parse('# Title\n\nSome\ntext\n\nSub\n---\n\n***')).toEqual([
+      { type: 'heading', level: 1, content: [{ text: 'Title' }] },
+      { type: 'paragraph', content: [{ text: 'Some text' }] },
+      { type: 'heading', level: 2, content: [{ text: 'Sub' }] },
+      { type: 'rule' }
+    ])
+  })
+
+  it('parses fenced and indented code', () => {
+    expect(Markdown.parse('```ts\nconst a = 1\n```\n\n    indented')).toEqual([
+      { type: 'code', language: 'ts', code: 'const a = 1' },
+      { type: 'code', language: null, code: 'indented' }
+    ])
+  })
+
+  it('parses nested lists and quotes', () => {
+    expect(Markdown.parse('3. one\n4. two\n   > quoted\n\n- a')).toEqual([
+      {
+        type: 'list',
+        ordered: true,
+        start: 3,
+        items: [
+          [{ type: 'paragraph', content: [{ text: 'one' }] }],
+          [{ type: 'paragraph', content: [{ text: 'two' }] }, { type: 'quote', blocks: [{ type: 'paragraph', content: [{ text: 'quoted' }] }] }]
+        ]
+      },
+      { type: 'list', ordered: false, start: 1, items: [[{ type: 'paragraph', content: [{ text: 'a' }] }]] }
+    ])
+  })
+
+  it('parses tables with alignment', () => {
+    expect(Markdown.parse('| a | b |\n|:--|--:|\n| 1 | 2 |')).toEqual([
+      { type: 'table', align: ['left', 'right'], header: [[{ text: 'a' }], [{ text: 'b' }]], rows: [[[{ text: '1' }], [{ text: '2' }]]] }
+    ])
+  })
+
+  it('parses emphasis, code spans, links and escapes', () => {
+    expect(Markdown.parseInline('**bold** *it* `co*de` [link](https://x.y) \\*not\\*')).toEqual([
+      { text: 'bold', bold: true },
+      { text: ' ' },
+      { text: 'it', italic: true },
+      { text: ' ' },
+      { text: 'co*de', code: true },
+      { text: ' ' },
+      { text: 'link', link: 'https://x.y' },
+      { text: ' *not*' }
+    ])
+  })
+})
+
+describe('Markdown', () => {
+  it('renders blocks with gaps, list markers and link destinations', () => {
+    expect(render('# Title\n\n- one\n- [two](http://t)')).toBe([
+      'Title',
+      '',
+      '• one',
+      '• two (http://t)'
+    ].join('\n'))
+  })
+
+  it('wraps paragraphs to the width', () => {
+    expect(render('the quick brown fox jumps', 10)).toBe('the quick\nbrown fox\njumps')
+  })
+
+  it('renders several highlighted code blocks, including nested ones', () => {
+    const source = '```ts\nlet a\n```\n\n```ts\nlet b\n```\n\n- ```ts\n  let c\n  ```\n\n> ```ts\n> let d\n> ```'
+    const rendered = render(source)
+
+    for (const name of ['a', 'b', 'c', 'd']) {
+      expect(rendered).toContain(`let ${name}`)
+    }
+  })
+})
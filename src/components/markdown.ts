@@ -0,0 +1,512 @@
+import { VComponent } from 'core/component'
+import { BoundsSpec, ColorSpec, intrinsics, JSXTextAttrs, TextWrapMode, VNode } from 'core/view'
+import { CodeGrammar } from 'components/code-grammar'
+import { CodeView } from 'components/code-view'
+
+const HEADING_COLOR: ColorSpec = 'cyan'
+const CODE_COLOR: ColorSpec = 'yellow'
+const LINK_COLOR: ColorSpec = 'blue'
+const MUTED_COLOR: ColorSpec = 'gray'
+
+/** Horizontal rules and table header rules are this long, then clipped to the width */
+const RULE = '─'.repeat(256)
+
+/** Inline text with the styles of the emphasis, code span or link it's in */
+export interface MarkdownSpan {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  strikethrough?: boolean
+  /** In a code span */
+  code?: boolean
+  /** Destination, if in a link or image */
+  link?: string
+}
+
+export type MarkdownAlign = 'left' | 'center' | 'right' | null
+
+export type MarkdownBlock =
+  { type: 'heading', level: number, content: MarkdownSpan[] } |
+  { type: 'paragraph', content: MarkdownSpan[] } |
+  { type: 'code', language: string | null, code: string } |
+  { type: 'quote', blocks: MarkdownBlock[] } |
+  { type: 'list', ordered: boolean, start: number, items: MarkdownBlock[][] } |
+  { type: 'table', align: MarkdownAlign[], header: MarkdownSpan[][], rows: MarkdownSpan[][][] } |
+  { type: 'rule' }
+
+export interface MarkdownProps extends Omit<BoundsSpec, 'height'> {
+  key?: string
+  /** The markdown source */
+  children?: string | string[]
+  /** How paragraphs wrap if `width` is set. Default is 'word' */
+  wrapMode?: TextWrapMode
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))??(?:[ \t]+#+)?[ \t]*$/
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/
+const RULE_LINE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/
+const QUOTE = /^ {0,3}> ?/
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])( {1,4}|\t|$)/
+const INDENTED_CODE = /^(?: {4}|\t)/
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/
+const ESCAPABLE = /^[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/
+
+/**
+ * Renders CommonMark (headings, emphasis, lists, code blocks, block quotes, tables, links and rules) with `box`, `text` and `border` views,
+ * styled so it reads well in both the terminal and the browser. Links show their destination after their text.
+ *
+ * Paragraphs only wrap if `width` is set:
+ * ```tsx
+ * <Markdown width='100%'>{changelog}</Markdown>
+ * ```
+ */
+export function Markdown ({ children, wrapMode, ...bounds }: MarkdownProps): VNode {
+  const source = typeof children === 'string' ? children : (children ?? []).join('')
+  return renderBlocks(Markdown.parse(source), bounds.width === undefined ? null : wrapMode ?? 'word', bounds, 1, '')
+}
+
+export module Markdown {
+  /** Parses the source into blocks. Unsupported syntax (e.g. HTML) is kept as text */
+  export function parse (source: string): MarkdownBlock[] {
+    return parseBlocks(source.replace(/\r\n?/g, '\n').split('\n'))
+  }
+
+  /** Parses emphasis, code spans, links and escapes in a block's text. Single newlines become spaces */
+  export function parseInline (text: string): MarkdownSpan[] {
+    return mergeSpans(parseInlineWith(text.trim(), {}))
+  }
+}
+
+function parseBlocks (lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = []
+  let i = 0
+  while (i < lines.length) {
+    const line = lines[i]
+    let match: RegExpMatchArray | null
+    if (line.trim() === '') {
+      i++
+    } else if ((match = line.match(FENCE)) !== null) {
+      const fence = match[1]
+      const indent = line.length - line.trimStart().length
+      const code: string[] = []
+      i++
+      while (i < lines.length && !isClosingFence(lines[i], fence)) {
+        code.push(lines[i].replace(new RegExp(`^ {0,${indent}}`), ''))
+        i++
+      }
+      i++
+      blocks.push({ type: 'code', language: match[2] === '' ? null : match[2], code: code.join('\n') })
+    } else if ((match = line.match(ATX_HEADING)) !== null) {
+      blocks.push({ type: 'heading', level: match[1].length, content: Markdown.parseInline(match[2] ?? '') })
+      i++
+    } else if (RULE_LINE.test(line)) {
+      blocks.push({ type: 'rule' })
+      i++
+    } else if (QUOTE.test(line)) {
+      const quoted: string[] = []
+      // Lines without `>` continue the quote's paragraph ("lazy continuation")
+      while (i < lines.length && (QUOTE.test(lines[i]) || (quoted.length > 0 && lines[i].trim() !== '' && !startsBlock(lines[i])))) {
+        quoted.push(lines[i].replace(QUOTE, ''))
+        i++
+      }
+      blocks.push({ type: 'quote', blocks: parseBlocks(quoted) })
+    } else if (LIST_ITEM.test(line)) {
+      i = parseList(lines, i, blocks)
+    } else if (INDENTED_CODE.test(line)) {
+      const code: string[] = []
+      while (i < lines.length && (INDENTED_CODE.test(lines[i]) || lines[i].trim() === '')) {
+        code.push(lines[i].replace(INDENTED_CODE, ''))
+        i++
+      }
+      while (code.length > 0 && code[code.length - 1].trim() === '') {
+        code.pop()
+      }
+      blocks.push({ type: 'code', language: null, code: code.join('\n') })
+    } else if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1]) && tableCells(line).length === tableCells(lines[i + 1]).length) {
+      const align = tableCells(lines[i + 1]).map(parseAlign)
+      const header = tableCells(line).map(Markdown.parseInline)
+      const rows: MarkdownSpan[][][] = []
+      i += 2
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim() !== '') {
+        rows.push(tableCells(lines[i]).map(Markdown.parseInline))
+        i++
+      }
+      blocks.push({ type: 'table', align, header, rows })
+    } else {
+      const paragraph: string[] = []
+      while (i < lines.length && lines[i].trim() !== '' && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+        const underline = paragraph.length > 0 ? lines[i].match(SETEXT_UNDERLINE) : null
+        if (underline !== null) {
+          break
+        }
+        paragraph.push(lines[i])
+        i++
+      }
+      const underline = i < lines.length ? lines[i].match(SETEXT_UNDERLINE) : null
+      if (underline !== null) {
+        blocks.push({ type: 'heading', level: underline[1].startsWith('=') ? 1 : 2, content: Markdown.parseInline(paragraph.join('\n')) })
+        i++
+      } else {
+        blocks.push({ type: 'paragraph', content: Markdown.parseInline(paragraph.join('\n')) })
+      }
+    }
+  }
+  return blocks
+}
+
+/** Parses the list starting at `lines[start]` into `blocks`, and returns the index of the line after it */
+function parseList (lines: string[], start: number, blocks: MarkdownBlock[]): number {
+  const first = lines[start].match(LIST_ITEM) as RegExpMatchArray
+  const ordered = /\d/.test(first[2])
+  const delimiter = first[2].slice(-1)
+  const items: MarkdownBlock[][] = []
+  let i = start
+  let match: RegExpMatchArray | null
+  while (i < lines.length && (match = lines[i].match(LIST_ITEM)) !== null && /\d/.test(match[2]) === ordered && match[2].endsWith(delimiter) && !RULE_LINE.test(lines[i])) {
+    // The item's content is indented past the marker, or 1 space if the marker is followed by 5+ spaces or nothing
+    const contentIndent = match[1].length + match[2].length + (match[3].length === 0 || match[3].length > 4 ? 1 : match[3].length)
+    const itemLines = [lines[i].slice(match[0].length)]
+    i++
+    while (i < lines.length) {
+      const line = lines[i]
+      const indent = line.length - line.trimStart().length
+      if (line.trim() === '') {
+        // Blank lines are in the item if the next non-blank line is
+        let next = i + 1
+        while (next < lines.length && lines[next].trim() === '') {
+          next++
+        }
+        if (next >= lines.length || lines[next].length - lines[next].trimStart().length < contentIndent) {
+          break
+        }
+        itemLines.push('')
+      } else if (indent >= contentIndent) {
+        itemLines.push(line.slice(contentIndent))
+      } else if (itemLines[itemLines.length - 1].trim() !== '' && !startsBlock(line)) {
+        // Lazy continuation of the item's paragraph
+        itemLines.push(line.trimStart())
+      } else {
+        break
+      }
+      i++
+    }
+    items.push(parseBlocks(itemLines))
+    // Blank lines between items
+    let next = i
+    while (next < lines.length && lines[next].trim() === '') {
+      next++
+    }
+    if (next < lines.length && LIST_ITEM.test(lines[next])) {
+      i = next
+    }
+  }
+  blocks.push({ type: 'list', ordered, start: ordered ? parseInt(first[2]) : 1, items })
+  return i
+}
+
+/** Whether the line starts a block which interrupts a paragraph */
+function startsBlock (line: string): boolean {
+  return FENCE.test(line) || ATX_HEADING.test(line) || RULE_LINE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line)
+}
+
+function isClosingFence (line: string, fence: string): boolean {
+  const match = line.match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/)
+  return match !== null && match[1][0] === fence[0] && match[1].length >= fence.length
+}
+
+/** Splits a table row at unescaped pipes, without the optional leading and trailing pipe */
+function tableCells (line: string): string[] {
+  const cells = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/)
+  return cells.map(cell => cell.trim().replace(/\\\|/g, '|'))
+}
+
+function parseAlign (delimiter: string): MarkdownAlign {
+  const left = delimiter.startsWith(':')
+  const right = delimiter.endsWith(':')
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null
+}
+
+type InlineStyle = Omit<MarkdownSpan, 'text'>
+
+function parseInlineWith (text: string, style: InlineStyle): MarkdownSpan[] {
+  const spans: MarkdownSpan[] = []
+  let plain = ''
+  const flush = (): void => {
+    if (plain !== '') {
+      spans.push({ ...style, text: plain })
+      plain = ''
+    }
+  }
+
+  let i = 0
+  while (i < text.length) {
+    const char = text[i]
+    const rest = text.slice(i)
+    let match: RegExpMatchArray | null
+    if (char === '\\' && text[i + 1] === '\n') {
+      // Hard line break
+      plain += '\n'
+      i += 2
+    } else if (char === '\\' && ESCAPABLE.test(text.slice(i + 1))) {
+      plain += text[i + 1]
+      i += 2
+    } else if (char === '\n') {
+      // Two trailing spaces are a hard line break, otherwise it's a soft break
+      const isHard = plain.endsWith('  ')
+      plain = plain.trimEnd() + (isHard ? '\n' : ' ')
+      i++
+    } else if ((match = rest.match(/^`+/)) !== null) {
+      const ticks = match[0]
+      const end = findCodeSpanEnd(text, i + ticks.length, ticks.length)
+      if (end === -1) {
+        plain += ticks
+        i += ticks.length
+      } else {
+        let code = text.slice(i + ticks.length, end).replace(/\n/g, ' ')
+        if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ') && code.trim() !== '') {
+          code = code.slice(1, -1)
+        }
+        flush()
+        spans.push({ ...style, code: true, text: code })
+        i = end + ticks.length
+      }
+    } else if ((match = rest.match(/^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*|[^\s<>@]+@[^\s<>@]+\.[^\s<>@]+)>/)) !== null) {
+      flush()
+      spans.push({ ...style, text: match[1], link: match[1].includes(':') ? match[1] : `mailto:${match[1]}` })
+      i += match[0].length
+    } else if (char === '[' || (char === '!' && text[i + 1] === '[')) {
+      const isImage = char === '!'
+      const link = parseLink(text, isImage ? i + 1 : i)
+      if (link === null) {
+        plain += char
+        i++
+      } else {
+        flush()
+        spans.push(...parseInlineWith(link.label, { ...style, link: link.destination }))
+        i = link.end
+      }
+    } else if (rest.startsWith('~~') || rest.startsWith('**') || rest.startsWith('__') || char === '*' || char === '_') {
+      const delimiter = rest.startsWith('~~') || rest.startsWith('**') || rest.startsWith('__') ? rest.slice(0, 2) : char
+      const end = findEmphasisEnd(text, i, delimiter)
+      if (end === -1) {
+        plain += delimiter
+        i += delimiter.length
+      } else {
+        const innerStyle: InlineStyle = delimiter === '~~'
+          ? { ...style, strikethrough: true }
+          : delimiter.length === 2 ? { ...style, bold: true } : { ...style, italic: true }
+        flush()
+        spans.push(...parseInlineWith(text.slice(i + delimiter.length, end), innerStyle))
+        i = end + delimiter.length
+      }
+    } else {
+      plain += char
+      i++
+    }
+  }
+  flush()
+  return spans
+}
+
+/** Index of the backtick run of exactly `length` which closes a code span, or -1 */
+function findCodeSpanEnd (text: string, start: number, length: number): number {
+  const regex = /`+/g
+  regex.lastIndex = start
+  let match: RegExpExecArray | null
+  while ((match = regex.exec(text)) !== null) {
+    if (match[0].length === length) {
+      return match.index
+    }
+  }
+  return -1
+}
+
+/**
+ * Index of the delimiter which closes the emphasis opened at `start`, or -1 if it isn't emphasis.
+ * Emphasis can't start before or end after whitespace, and `_` can't be inside a word
+ */
+function findEmphasisEnd (text: string, start: number, delimiter: string): number {
+  const after = text[start + delimiter.length] ?? ' '
+  const before = text[start - 1] ?? ' '
+  if (/\s/.test(after) || (delimiter[0] === '_' && /[\p{L}\p{N}]/u.test(before))) {
+    return -1
+  }
+  let i = start + delimiter.length + 1
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2
+    } else if (text[i] === '`') {
+      // Delimiters in code spans don't count
+      const ticks = (text.slice(i).match(/^`+/) as RegExpMatchArray)[0]
+      const end = findCodeSpanEnd(text, i + ticks.length, ticks.length)
+      i = end === -1 ? i + ticks.length : end + ticks.length
+    } else if (delimiter.length === 1 && text.startsWith(delimiter + delimiter, i)) {
+      // A single delimiter doesn't close at a double one, which is nested emphasis
+      i += 2
+    } else if (
+      text.startsWith(delimiter, i) &&
+      !/\s/.test(text[i - 1]) &&
+      !(delimiter[0] === '_' && /[\p{L}\p{N}]/u.test(text[i + delimiter.length] ?? ' '))
+    ) {
+      return i
+    } else {
+      i++
+    }
+  }
+  return -1
+}
+
+/** Parses `[label](destination "title")` starting at the `[`, or returns `null` if it isn't a link */
+function parseLink (text: string, start: number): { label: string, destination: string, end: number } | null {
+  let depth = 0
+  let labelEnd = -1
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++
+    } else if (text[i] === '[') {
+      depth++
+    } else if (text[i] === ']' && --depth === 0) {
+      labelEnd = i
+      break
+    }
+  }
+  if (labelEnd === -1) {
+    return null
+  }
+  const match = text.slice(labelEnd + 1).match(/^\(\s*(<[^>\n]*>|[^\s()]*)(?:\s+("[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/)
+  if (match === null) {
+    return null
+  }
+  return {
+    label: text.slice(start + 1, labelEnd),
+    destination: match[1].replace(/^<(.*)>$/, '$1'),
+    end: labelEnd + 1 + match[0].length
+  }
+}
+
+/** Joins adjacent spans with the same style */
+function mergeSpans (spans: MarkdownSpan[]): MarkdownSpan[] {
+  const result: MarkdownSpan[] = []
+  for (const span of spans) {
+    const prev = result[result.length - 1]
+    if (prev !== undefined && prev.bold === span.bold && prev.italic === span.italic && prev.strikethrough === span.strikethrough && prev.code === span.code && prev.link === span.link) {
+      result[result.length - 1] = { ...prev, text: prev.text + span.text }
+    } else {
+      result.push(span)
+    }
+  }
+  return result
+}
+
+/**
+ * Stacks the blocks. If `wrapMode` isn't `null`, they fill the width so their text wraps.
+ * Each block's key is its path from the top level, e.g. `2-0-1` for the second block in the first item of the third block,
+ * because components in the blocks (e.g. `CodeView`) all have the markdown component as their parent
+ */
+function renderBlocks (blocks: MarkdownBlock[], wrapMode: TextWrapMode | null, bounds: BoundsSpec, gap: number, keyPrefix: string): VNode {
+  return intrinsics.vbox({ ...bounds, gap }, ...blocks.map((block, index) => renderBlock(block, wrapMode, `${keyPrefix}${index}`)))
+}
+
+function renderBlock (block: MarkdownBlock, wrapMode: TextWrapMode | null, key: string): VNode {
+  switch (block.type) {
+    case 'heading':
+      return intrinsics.text({ key, ...fill(wrapMode, 0), wrapMode: wrapMode ?? undefined, ...headingStyle(block.level) }, ...renderSpans(block.content))
+    case 'paragraph':
+      return intrinsics.text({ key, ...fill(wrapMode, 0), wrapMode: wrapMode ?? undefined }, ...renderSpans(block.content))
+    case 'code':
+      // Long lines are cut off instead of wrapped. Code in a language with a registered grammar is highlighted
+      return intrinsics.zbox({ key, ...fill(wrapMode, 0) },
+        intrinsics.vbox({ x: 2, y: 1, ...fill(wrapMode, 4) },
+          block.language !== null && CodeGrammar.get(block.language) !== null
+            ? VComponent(`code-${key}`, { code: block.code, language: block.language, lineNumbers: false, ...fill(wrapMode, 0) }, CodeView)
+            : intrinsics.text({ color: CODE_COLOR, ...fill(wrapMode, 0), wrapMode: wrapMode === null ? undefined : 'clip' }, block.code)
+        ),
+        intrinsics.border({ style: 'rounded', color: MUTED_COLOR, width: 'prev + 4', height: 'prev + 2' })
+      )
+    case 'quote':
+      return intrinsics.zbox({ key, ...fill(wrapMode, 0) },
+        renderBlocks(block.blocks, wrapMode, { x: 2, ...fill(wrapMode, 2) }, 1, `${key}-`),
+        intrinsics.color({ color: MUTED_COLOR, width: 1, height: 'prev' })
+      )
+    case 'list': {
+      const markers = block.items.map((_, index) => block.ordered ? `${block.start + index}. ` : '• ')
+      const markerWidth = Math.max(...markers.map(marker => marker.length))
+      return intrinsics.vbox({ key, ...fill(wrapMode, 0) }, ...block.items.map((item, index) =>
+        intrinsics.hbox({ key: `${index}`, ...fill(wrapMode, 0) },
+          intrinsics.text({ color: MUTED_COLOR }, markers[index].padStart(markerWidth)),
+          renderBlocks(item, wrapMode, fill(wrapMode, markerWidth), 0, `${key}-${index}-`)
+        )
+      ))
+    }
+    case 'table':
+      return renderTable(block, key)
+    case 'rule':
+      return intrinsics.text({ key, color: MUTED_COLOR, width: '100%', wrapMode: 'clip' }, RULE)
+  }
+}
+
+/** Grid with a column for each table column, separated by columns of `│` */
+function renderTable ({ align, header, rows }: Extract<MarkdownBlock, { type: 'table' }>, key: string): VNode {
+  const separator = (row: string, text: string): VNode => intrinsics.text({ key: `${row}-separator-${text}`, color: MUTED_COLOR }, text)
+  const cells = (row: string, contents: MarkdownSpan[][], isHeader: boolean): VNode[] => align.flatMap((columnAlign, column) => [
+    ...column === 0 ? [] : [separator(`${row}-${column}`, ' │ ')],
+    intrinsics.text({ key: `${row}-${column}`, bold: isHeader, ...alignBounds(columnAlign) }, ...renderSpans(contents[column] ?? []))
+  ])
+  // The rules are measured as empty, then fill their column
+  const headerRule = align.flatMap((_, column) => [
+    ...column === 0 ? [] : [separator(`rule-${column}`, '─┼─')],
+    intrinsics.text({ key: `rule-${column}`, color: MUTED_COLOR, width: '100%', wrapMode: 'clip' }, RULE)
+  ])
+
+  return intrinsics.grid({ key, columns: Array(align.length * 2 - 1).fill('auto') },
+    ...cells('header', header, true),
+    ...headerRule,
+    ...rows.flatMap((row, index) => cells(`${index}`, row, false))
+  )
+}
+
+/** Each span as a `span` with its style. Links are followed by their destination, unless it's the same as their text */
+function renderSpans (spans: MarkdownSpan[]): VNode[] {
+  return spans.flatMap(({ text, bold, italic, strikethrough, code, link }, index) => {
+    const attrs: JSXTextAttrs = code === true
+      ? { bold, italic, strikethrough, color: CODE_COLOR }
+      : link !== undefined
+        ? { bold, italic, strikethrough, color: LINK_COLOR, underline: true }
+        : { bold, italic, strikethrough }
+    const span = intrinsics.span(attrs, text)
+    // A link with styled parts has a span for each part
+    const isLinkEnd = link !== undefined && spans[index + 1]?.link !== link
+    return !isLinkEnd || link === text || link === `mailto:${text}`
+      ? [span]
+      : [span, intrinsics.span({ color: MUTED_COLOR }, ` (${link})`)]
+  })
+}
+
+function headingStyle (level: number): JSXTextAttrs {
+  switch (level) {
+    case 1:
+      return { bold: true, underline: true, color: HEADING_COLOR }
+    case 2:
+      return { bold: true, color: HEADING_COLOR }
+    default:
+      return { bold: true }
+  }
+}
+
+/** Position of a table cell in its column */
+function alignBounds (align: MarkdownAlign): BoundsSpec {
+  switch (align) {
+    case 'center':
+      return { x: '50%', anchorX: 0.5 }
+    case 'right':
+      return { x: '100%', anchorX: 1 }
+    default:
+      return {}
+  }
+}
+
+/** Fills the parent's width except `inset` if wrapping, otherwise takes the natural width */
+function fill (wrapMode: TextWrapMode | null, inset: number): BoundsSpec {
+  return wrapMode === null ? {} : { width: inset === 0 ? '100%' : `100% - ${inset}` }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { intrinsics, VNode } from 'core'
+import { VComponent } from 'core/component'
+import { Scroll, ScrollController, scrollDelta, useScrollController } from 'components/scroll'
+import { renderHeadless, sendKeys } from 'testing'
+
+function renderRows (): { renderer: ReturnType<typeof renderHeadless>, controller: () => ScrollController } {
+  let controller: ScrollController | null = null
+  const renderer = renderHeadless((): VNode => {
+    controller = useScrollController()
+    return VComponent('scroll', {
+      width: 6,
+      height: 3,
+      scrollbar: false,
+      controller,
+      children: [intrinsics.vbox({}, ...Array.from({ length: 10 }, (_, i) => intrinsics.text({ key: `row-${i}` }, `row ${i}`)))]
+    }, Scroll)
+  }, {}, { width: 6, height: 3 })
+  return { renderer, controller: () => controller! }
+}
+
+describe('Scroll', () => {
+  it('scrolls with the arrow, page, home and end keys, within the content', () => {
+    const { renderer } = renderRows()
+    const rows = (): string[] => renderer.lines.map(line => line.trimEnd())
+    expect(rows()).toEqual(['row 0', 'row 1', 'row 2'])
+
+    sendKeys(renderer, 'down pagedown')
+    expect(rows()).toEqual(['row 3', 'row 4', 'row 5'])
+    sendKeys(renderer, 'end down')
+    expect(rows()).toEqual(['row 7', 'row 8', 'row 9'])
+    sendKeys(renderer, 'home up')
+    expect(rows()).toEqual(['row 0', 'row 1', 'row 2'])
+    renderer.dispose()
+  })
+
+  it('scrolls descendants into view from a controller', () => {
+    const { renderer, controller } = renderRows()
+    controller().scrollTo('row-5')
+    renderer.tick()
+
+    expect(controller().offset).toEqual({ x: 0, y: 3 })
+    expect(renderer.lines[2].trimEnd()).toBe('row 5')
+    expect(() => controller().scrollTo('row-10')).toThrow('scroll has no descendant with key row-10')
+    renderer.dispose()
+  })
+
+  it('scrolls the least amount, preferring the start of spans larger than the viewport', () => {
+    expect(scrollDelta(2, 1, 0, 5)).toBe(0)
+    expect(scrollDelta(7, 1, 0, 5)).toBe(3)
+    expect(scrollDelta(-2, 1, 0, 5)).toBe(-2)
+    expect(scrollDelta(3, 10, 0, 5)).toBe(3)
+  })
+})
@@ -0,0 +1,195 @@
+import { getRenderer, getVComponent } from 'core/component'
+import { intrinsics, JSXBoxAttrs, Rectangle, VJSX, VNode } from 'core/view'
+import { useFocus, useInput, useMouse, useState, useStateFast } from 'core/hooks'
+
+/** Rows scrolled per mouse wheel notch */
+export const SCROLL_WHEEL_ROWS = 3
+
+export interface ScrollOffset {
+  x: number
+  y: number
+}
+
+export interface ScrollProps extends Omit<JSXBoxAttrs, 'clip' | 'extend' | 'scrollOffset'> {
+  /** Whether to draw scrollbars when the content overflows. Default is true */
+  scrollbar?: boolean
+  /** Lets another component scroll this one, see `useScrollController` */
+  controller?: ScrollController
+  /** Whether tab / shift-tab can focus the scroll container. Default is true */
+  tabbable?: boolean
+  children?: VJSX[]
+}
+
+interface ScrollTarget {
+  readonly offset: ScrollOffset
+  scrollBy: (x: number, y: number) => void
+  scrollTo: (key: string) => void
+}
+
+/** Scrolls a `scroll` container from outside of it. Create via `useScrollController` and pass as the `controller` prop */
+export class ScrollController {
+  /** Set by the `scroll` this is passed to */
+  target: ScrollTarget | null = null
+
+  /** Current offset in columns and rows */
+  get offset (): ScrollOffset {
+    return this.target?.offset ?? { x: 0, y: 0 }
+  }
+
+  /** Scrolls by the given columns and rows, within the content */
+  scrollBy (x: number, y: number): void {
+    this.getTarget().scrollBy(x, y)
+  }
+
+  /** Scrolls the least amount so the descendant with the given key (view or component) is in view */
+  scrollTo (key: string): void {
+    this.getTarget().scrollTo(key)
+  }
+
+  private getTarget (): ScrollTarget {
+    if (this.target === null) {
+      throw new Error('scroll controller isn\'t passed to a scroll')
+    }
+    return this.target
+  }
+}
+
+/** Returns a controller to scroll a `scroll` container (pass it as the `controller` prop) */
+export function useScrollController (): ScrollController {
+  const [controller] = useStateFast(new ScrollController())
+  return controller
+}
+
+/**
+ * Clips its children to its bounds and scrolls them with the arrow, page, home and end keys, and the mouse wheel
+ * (shift + wheel scrolls horizontally). Keys are only handled when the scroll container is focused or nothing is.
+ * Use as `<Scroll>`, e.g. `<Scroll height={10} controller={controller}>{rows}</Scroll>`.
+ */
+export function Scroll ({ scrollbar, controller, tabbable, children, ...boxProps }: ScrollProps): VNode {
+  const renderer = getRenderer()
+  const component = getVComponent()
+  const offset = useState<ScrollOffset>({ x: 0, y: 0 })
+  useFocus({ tabbable: tabbable ?? true })
+
+  function scrollBy (x: number, y: number): void {
+    const viewport = renderer.getRenderedRect(component)
+    const content = renderer.getRenderedContentRect(component)
+    let maxX = 0
+    let maxY = 0
+    if (viewport !== null && content !== null) {
+      maxX = Math.max(0, content.left + content.width - viewport.left - viewport.width)
+      maxY = Math.max(0, content.top + content.height - viewport.top - viewport.height)
+    }
+    const newX = Math.min(Math.max(offset.v.x + x, 0), maxX)
+    const newY = Math.min(Math.max(offset.v.y + y, 0), maxY)
+    if (newX !== offset.v.x || newY !== offset.v.y) {
+      offset.v = { x: newX, y: newY }
+    }
+  }
+
+  function scrollTo (key: string): void {
+    const node = component.node === null ? null : findByKey(component.node, key, true)
+    if (node === null) {
+      throw new Error(`scroll has no descendant with key ${key}`)
+    }
+    const viewport = renderer.getRenderedRect(component)
+    const rect = renderer.getRenderedRect(node)
+    if (viewport === null || rect === null) {
+      // Not rendered yet
+      return
+    }
+    scrollBy(
+      scrollDelta(rect.left, rect.width, viewport.left, viewport.width),
+      scrollDelta(rect.top, rect.height, viewport.top, viewport.height)
+    )
+  }
+
+  if (controller !== undefined) {
+    controller.target = { offset: { x: offset.v.x, y: offset.v.y }, scrollBy, scrollTo }
+  }
+
+  useScrollInput(scrollBy, () => renderer.getRenderedRect(component))
+
+  return intrinsics.box({
+    ...boxProps,
+    scrollOffset: { x: offset.v.x, y: offset.v.y },
+    scrollbar: scrollbar ?? true
+  }, ...(children ?? []))
+}
+
+/**
+ * Calls `scrollBy` on the arrow, page, home and end keys, and the mouse wheel over the current component.
+ * Page up / down scroll by the viewport's height minus 1, so one row stays visible.
+ */
+export function useScrollInput (scrollBy: (x: number, y: number) => void, getViewport: () => Rectangle | null): void {
+  useInput(key => {
+    const pageRows = Math.max(1, (getViewport()?.height ?? 1) - 1)
+    switch (key.name) {
+      case 'up':
+        scrollBy(0, -1)
+        return true
+      case 'down':
+        scrollBy(0, 1)
+        return true
+      case 'left':
+        scrollBy(-1, 0)
+        return true
+      case 'right':
+        scrollBy(1, 0)
+        return true
+      case 'pageup':
+        scrollBy(0, -pageRows)
+        return true
+      case 'pagedown':
+        scrollBy(0, pageRows)
+        return true
+      case 'home':
+        scrollBy(0, -Infinity)
+        return true
+      case 'end':
+        scrollBy(0, Infinity)
+        return true
+      default:
+        return false
+    }
+  })
+
+  useMouse(mouse => {
+    if (mouse.type === 'scroll') {
+      if (mouse.shift) {
+        scrollBy(mouse.scrollY * SCROLL_WHEEL_ROWS, 0)
+      } else {
+        scrollBy(0, mouse.scrollY * SCROLL_WHEEL_ROWS)
+      }
+    }
+  })
+}
+
+/** Columns or rows to scroll so that the span is in the viewport, preferring its start if it's larger */
+export function scrollDelta (start: number, size: number, viewportStart: number, viewportSize: number): number {
+  if (start < viewportStart) {
+    return start - viewportStart
+  } else if (start + size > viewportStart + viewportSize) {
+    return Math.min(start - viewportStart, start + size - viewportStart - viewportSize)
+  } else {
+    return 0
+  }
+}
+
+/** Finds the descendant view or component with the key, depth-first */
+function findByKey (node: VNode, key: string, isRoot: boolean = false): VNode | null {
+  if (!isRoot && node.key === key) {
+    return node
+  }
+  if (node.type === 'component') {
+    return node.node === null ? null : findByKey(node.node, key)
+  } else if (node.type === 'box') {
+    for (const child of node.children) {
+      const found = findByKey(child, key)
+      if (found !== null) {
+        return found
+      }
+    }
+  }
+  return null
+}
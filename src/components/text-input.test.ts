@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { intrinsics, useState, VNode } from 'core'
+import { VComponent } from 'core/component'
+import { Lens } from 'core/lens'
+import { TextInput } from 'components/text-input'
+import { HeadlessRendererImpl, renderHeadless, sendKeys, textToKeys } from 'testing'
+
+function renderInput (initialValue: string = ''): { renderer: HeadlessRendererImpl, value: () => string } {
+  let valueLens: Lens<string> | null = null
+  const renderer = renderHeadless(() => {
+    const value = useState(initialValue)
+    valueLens = value
+    return VComponent('input', { value, autoFocus: true }, TextInput)
+  }, {}, { width: 20, height: 1 })
+  return { renderer, value: () => valueLens!.v }
+}
+
+describe('TextInput', () => {
+  it('inserts typed text and pastes at the cursor', () => {
+    const { renderer, value } = renderInput()
+    sendKeys(renderer, textToKeys('hello world'))
+    sendKeys(renderer, 'ctrl+left')
+    renderer.sendPaste('big ')
+
+    expect(value()).toBe('hello big world')
+    expect(renderer.lines[0].trimEnd()).toBe('hello big world')
+    renderer.dispose()
+  })
+
+  it('selects and replaces with shift and movement', () => {
+    const { renderer, value } = renderInput('abcdef')
+    sendKeys(renderer, 'shift+left shift+left shift+left x backspace backspace')
+
+    expect(value()).toBe('ab')
+    renderer.dispose()
+  })
+
+  it('moves and deletes by grapheme cluster', () => {
+    const { renderer, value } = renderInput('a👩‍💻e\u0301b')
+    sendKeys(renderer, 'left backspace backspace')
+
+    expect(value()).toBe('ab')
+    renderer.dispose()
+  })
+
+  it('treats letters in any script as word characters', () => {
+    const { renderer, value } = renderInput('déjà vu, naïve café')
+    sendKeys(renderer, 'ctrl+left ctrl+left')
+    renderer.sendPaste('très ')
+    sendKeys(renderer, 'ctrl+right ctrl+right ctrl+w')
+
+    expect(value()).toBe('déjà vu, très naïve ')
+    renderer.dispose()
+  })
+
+  it('scrolls to keep the cursor visible if it has a fixed width', () => {
+    const renderer = renderHeadless(() => {
+      const value = useState('')
+      return VComponent('input', { value, autoFocus: true, width: 5 }, TextInput)
+    }, {}, { width: 10, height: 1 })
+    sendKeys(renderer, textToKeys('abcdefgh'))
+    expect(renderer.lines[0].trimEnd()).toBe('efgh')
+
+    sendKeys(renderer, 'home')
+    expect(renderer.lines[0].trimEnd()).toBe('abcde')
+    renderer.dispose()
+  })
+
+  it('can be removed by submitting', () => {
+    const Form = (): VNode => {
+      const value = useState('')
+      const isSubmitted = useState(false)
+      return isSubmitted.v
+        ? intrinsics.text({}, `submitted ${value.v}`)
+        : VComponent('input', { value, autoFocus: true, onSubmit: () => { isSubmitted.v = true } }, TextInput)
+    }
+    const renderer = renderHeadless(Form, {}, { width: 20, height: 1 })
+    sendKeys(renderer, 'o k enter')
+
+    expect(renderer.lines[0].trimEnd()).toBe('submitted ok')
+    renderer.dispose()
+  })
+})
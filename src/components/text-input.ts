@@ -0,0 +1,300 @@
+import { Key } from '@raycenity/misc-ts'
+import { getRenderer, getVComponent } from 'core/component'
+import { BoundsSpec, ColorSpec, intrinsics, TextLayout, VNode } from 'core/view'
+import { useFocus, useInput, useState } from 'core/hooks'
+import { Lens } from 'core/lens'
+import { PASTE_KEY_NAME } from 'core/paste'
+
+const CURSOR_COLOR: ColorSpec = 'gray'
+const SELECTION_COLOR: ColorSpec = '#3a5a8c'
+const PLACEHOLDER_COLOR: ColorSpec = 'gray'
+
+export interface TextInputProps extends BoundsSpec {
+  key?: string
+  value: Lens<string>
+  /** Shown in gray while the value is empty */
+  placeholder?: string
+  /** Shows `mask` instead of each character */
+  password?: boolean
+  /** Default is '*' */
+  mask?: string
+  /** If true, enter inserts a newline and up / down move between lines. Otherwise pasted newlines become spaces */
+  multiline?: boolean
+  /** Called on enter if not `multiline` */
+  onSubmit?: (value: string) => void
+  color?: ColorSpec
+  /** Default is false */
+  autoFocus?: boolean
+  /** Default is true */
+  tabbable?: boolean
+}
+
+interface TextInputState {
+  /** Index in the value */
+  cursor: number
+  /** Other end of the selection, or `null` if nothing is selected */
+  anchor: number | null
+  scrollX: number
+  scrollY: number
+}
+
+/**
+ * Editable text bound to `value`. Only gets keys while focused (tab to it, or set `autoFocus`).
+ *
+ * - left / right / home / end move the cursor, ctrl or meta + left / right move by word, ctrl + a / e go to the start / end of the line
+ * - shift + any movement selects
+ * - backspace / delete remove the selection or the previous / next character (word with ctrl or meta), ctrl + w removes the previous word
+ * - pasted text is inserted at once (bracketed paste in the terminal)
+ *
+ * If the text overflows the input's width or height, it scrolls to keep the cursor visible.
+ */
+export function TextInput ({ value, placeholder, password, mask, multiline, onSubmit, color, autoFocus, tabbable, ...bounds }: TextInputProps): VNode {
+  const renderer = getRenderer()
+  const component = getVComponent()
+  const focus = useFocus({ autoFocus, tabbable })
+  const state = useState<TextInputState>({ cursor: value.v.length, anchor: null, scrollX: 0, scrollY: 0 })
+
+  const text = value.v
+  const maskChar = mask ?? '*'
+  const isMultiline = multiline ?? false
+  // The value may have changed from outside
+  const cursor = Math.min(state.v.cursor, text.length)
+  const anchor = state.v.anchor === null ? null : Math.min(state.v.anchor, text.length)
+
+  /** Column and row of the index in the displayed text */
+  function position (index: number): { x: number, y: number } {
+    const lines = text.slice(0, index).split('\n')
+    const line = lines[lines.length - 1]
+    return {
+      x: password === true ? TextLayout.graphemes(line).length * TextLayout.width(maskChar) : TextLayout.width(line),
+      y: lines.length - 1
+    }
+  }
+
+  useInput(key => {
+    if (!focus.isFocused) {
+      return false
+    }
+
+    const selection = anchor === null || anchor === cursor ? null : { start: Math.min(anchor, cursor), end: Math.max(anchor, cursor) }
+    let newText = text
+    let newCursor = cursor
+    let newAnchor = anchor
+    const move = (index: number): void => {
+      newAnchor = key.shift ? (anchor ?? cursor) : null
+      newCursor = index
+    }
+    const replace = (start: number, end: number, insert: string): void => {
+      newText = text.slice(0, start) + insert + text.slice(end)
+      newCursor = start + insert.length
+      newAnchor = null
+    }
+    const insert = (insert: string): void => {
+      replace(selection?.start ?? cursor, selection?.end ?? cursor, insert)
+    }
+    const byWord = key.ctrl || key.meta
+
+    switch (key.name) {
+      case PASTE_KEY_NAME:
+        insert(isMultiline ? key.sequence ?? '' : (key.sequence ?? '').replace(/\n/g, ' '))
+        break
+      case 'left':
+        if (selection !== null && !key.shift) {
+          move(selection.start)
+        } else {
+          move(byWord ? prevWordStart(text, cursor) : prevCharIndex(text, cursor))
+        }
+        break
+      case 'right':
+        if (selection !== null && !key.shift) {
+          move(selection.end)
+        } else {
+          move(byWord ? nextWordEnd(text, cursor) : nextCharIndex(text, cursor))
+        }
+        break
+      case 'home':
+        move(lineStart(text, cursor))
+        break
+      case 'end':
+        move(lineEnd(text, cursor))
+        break
+      case 'up':
+      case 'down': {
+        if (!isMultiline) {
+          return false
+        }
+        const start = lineStart(text, cursor)
+        const column = cursor - start
+        if (key.name === 'up') {
+          if (start === 0) {
+            move(0)
+          } else {
+            const prevStart = lineStart(text, start - 1)
+            move(Math.min(prevStart + column, start - 1))
+          }
+        } else {
+          const end = lineEnd(text, cursor)
+          if (end === text.length) {
+            move(text.length)
+          } else {
+            move(Math.min(end + 1 + column, lineEnd(text, end + 1)))
+          }
+        }
+        break
+      }
+      case 'backspace':
+        if (selection !== null) {
+          insert('')
+        } else {
+          replace(byWord ? prevWordStart(text, cursor) : prevCharIndex(text, cursor), cursor, '')
+        }
+        break
+      case 'delete':
+        if (selection !== null) {
+          insert('')
+        } else {
+          newText = text.slice(0, cursor) + text.slice(byWord ? nextWordEnd(text, cursor) : nextCharIndex(text, cursor))
+          newAnchor = null
+        }
+        break
+      case 'return':
+      case 'enter':
+        if (isMultiline) {
+          insert('\n')
+        } else if (onSubmit !== undefined) {
+          // Nothing else changes, and submitting may remove the input
+          onSubmit(text)
+          return true
+        } else {
+          return false
+        }
+        break
+      default:
+        if (key.ctrl && key.name === 'a') {
+          move(lineStart(text, cursor))
+        } else if (key.ctrl && key.name === 'e') {
+          move(lineEnd(text, cursor))
+        } else if (key.ctrl && key.name === 'w') {
+          replace(selection?.start ?? prevWordStart(text, cursor), selection?.end ?? cursor, '')
+        } else if (isTyped(key)) {
+          insert(key.sequence!)
+        } else {
+          return false
+        }
+    }
+
+    // Scroll so the cursor is visible (in the previous frame's viewport)
+    let { scrollX, scrollY } = state.v
+    const viewport = renderer.getRenderedRect(component)
+    if (viewport !== null) {
+      const lines = newText.slice(0, newCursor).split('\n')
+      const line = lines[lines.length - 1]
+      const cursorX = password === true ? TextLayout.graphemes(line).length * TextLayout.width(maskChar) : TextLayout.width(line)
+      const cursorY = lines.length - 1
+      // Auto-sized inputs grow with their text instead of scrolling, but the viewport is from before it grew
+      scrollX = bounds.width === undefined ? 0 : Math.max(Math.min(scrollX, cursorX), cursorX - Math.floor(viewport.width) + 1, 0)
+      scrollY = bounds.height === undefined ? 0 : Math.max(Math.min(scrollY, cursorY), cursorY - Math.floor(viewport.height) + 1, 0)
+    }
+
+    state.v = { cursor: newCursor, anchor: newAnchor, scrollX, scrollY }
+    if (newText !== text) {
+      value.v = newText
+    }
+    return true
+  })
+
+  const isPlaceholder = text === '' && placeholder !== undefined
+  let display: string
+  if (isPlaceholder) {
+    display = placeholder
+  } else if (password === true) {
+    display = text.split('\n').map(line => maskChar.repeat(TextLayout.graphemes(line).length)).join('\n')
+  } else {
+    display = text
+  }
+  const displayLines = display.split('\n')
+
+  const highlights: VNode[] = []
+  if (focus.isFocused) {
+    if (anchor !== null && anchor !== cursor) {
+      const start = position(Math.min(anchor, cursor))
+      const end = position(Math.max(anchor, cursor))
+      for (let y = start.y; y <= end.y; y++) {
+        const left = y === start.y ? start.x : 0
+        // Include the newline so selected empty lines are visible
+        const right = y === end.y ? end.x : TextLayout.width(displayLines[y]) + 1
+        if (right > left) {
+          highlights.push(intrinsics.color({ key: `selection-${y}`, color: SELECTION_COLOR, x: left, y, width: right - left, height: 1 }))
+        }
+      }
+    }
+    const { x, y } = position(cursor)
+    highlights.push(intrinsics.color({ key: 'cursor', color: CURSOR_COLOR, x, y, width: 1, height: 1 }))
+  }
+
+  return intrinsics.box({
+    ...bounds,
+    direction: 'overlap',
+    scrollOffset: { x: state.v.scrollX, y: state.v.scrollY }
+  },
+  // Text is first so it's above the cursor and selection, which color its background
+  intrinsics.text({ color: isPlaceholder ? PLACEHOLDER_COLOR : color, wrapMode: 'clip' }, display),
+  ...highlights)
+}
+
+/** Printable text which isn't a shortcut */
+function isTyped (key: Key): boolean {
+  // eslint-disable-next-line no-control-regex
+  return key.sequence !== undefined && !key.ctrl && !key.meta && key.sequence !== '' && !/[\x00-\x1f\x7f]/.test(key.sequence)
+}
+
+/** Start of the grapheme cluster before the index, so the cursor never splits an emoji sequence or combining accent */
+function prevCharIndex (text: string, index: number): number {
+  const graphemes = TextLayout.graphemes(text.slice(0, index))
+  return index - (graphemes[graphemes.length - 1]?.length ?? 0)
+}
+
+/** End of the grapheme cluster after the index */
+function nextCharIndex (text: string, index: number): number {
+  return index + (TextLayout.graphemes(text.slice(index))[0]?.length ?? 0)
+}
+
+/** Start of the word before the index, skipping non-word characters first (like readline) */
+function prevWordStart (text: string, index: number): number {
+  const graphemes = TextLayout.graphemes(text.slice(0, index))
+  while (graphemes.length > 0 && !isWordChar(graphemes[graphemes.length - 1])) {
+    index -= graphemes.pop()!.length
+  }
+  while (graphemes.length > 0 && isWordChar(graphemes[graphemes.length - 1])) {
+    index -= graphemes.pop()!.length
+  }
+  return index
+}
+
+/** End of the word after the index, skipping non-word characters first (like readline) */
+function nextWordEnd (text: string, index: number): number {
+  const graphemes = TextLayout.graphemes(text.slice(index))
+  let i = 0
+  while (i < graphemes.length && !isWordChar(graphemes[i])) {
+    index += graphemes[i++].length
+  }
+  while (i < graphemes.length && isWordChar(graphemes[i])) {
+    index += graphemes[i++].length
+  }
+  return index
+}
+
+/** Letters and digits in any script, not just ASCII like `\w` */
+function isWordChar (grapheme: string): boolean {
+  return /^[\p{L}\p{N}_]/u.test(grapheme)
+}
+
+function lineStart (text: string, index: number): number {
+  // lastIndexOf treats negative indices as 0, which would find a newline at 0
+  return index === 0 ? 0 : text.lastIndexOf('\n', index - 1) + 1
+}
+
+function lineEnd (text: string, index: number): number {
+  const end = text.indexOf('\n', index)
+  return end === -1 ? text.length : end
+}
@@ -12,7 +12,7 @@ export type RenderOptions =
 export abstract class DevolveUICore<Props extends object> {
   protected abstract mkRenderer (root: () => VComponent, opts?: RenderOptions): Renderer
 
-  private readonly instance: Renderer
+  protected readonly instance: Renderer
   protected readonly props: Props
   /** A proxy which sets the given property */
   readonly p: Lens<Props>
@@ -0,0 +1,25 @@
+/**
+ * Source of time for timer hooks (`useDelay`, `useInterval`).
+ * Each renderer has a clock, which can be replaced via render options e.g. to control time in tests.
+ */
+export interface Clock {
+  /** Current time in milliseconds */
+  now: () => number
+  /** Calls `handler` once after `millis`. Returns a function which cancels it */
+  setTimeout: (handler: () => void, millis: number) => () => void
+  /** Calls `handler` every `millis`. Returns a function which cancels it */
+  setInterval: (handler: () => void, millis: number) => () => void
+}
+
+/** Uses the system time and global timers */
+export const REAL_CLOCK: Clock = {
+  now: () => Date.now(),
+  setTimeout: (handler, millis) => {
+    const timeout = setTimeout(handler, millis)
+    return () => clearTimeout(timeout)
+  },
+  setInterval: (handler, millis) => {
+    const interval = setInterval(handler, millis)
+    return () => clearInterval(interval)
+  }
+}
@@ -91,15 +91,14 @@ export function VComponent<Props> (key: string, props: Props, construct: (props:
     const parent = getVComponent()
     // parent is being created = if there are any existing children, they're not being reused, they're a conflict
     if (!VComponent.isBeingCreated(parent)) {
-      for (const [key, component] of parent.children) {
-        // If the componennt was already reused this update, it's a conflict. We fallthrough to VComponent.create which throws the error
-        if (!component.isFresh) {
-          component.props = props
-          component.construct = construct
-          component.isFresh = true
-          VComponent.update(component, `child:${key}`)
-          return component
-        }
+      const component = parent.children.get(key)
+      // If the component was already reused this update, it's a conflict. We fallthrough to VComponent.create which throws the error
+      if (component !== undefined && !component.isFresh) {
+        component.props = props
+        component.construct = construct
+        component.isFresh = true
+        VComponent.update(component, `child:${key}`)
+        return component
       }
     }
   }
@@ -233,7 +232,7 @@ export module VComponent {
     component.node = null
     invalidate(component, node)
 
-    for (const child of Object.values(component.children)) {
+    for (const child of component.children.values()) {
       destroy(child)
     }
   }
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { intrinsics, useFocus, useInput, useState, VNode } from 'core'
+import { VComponent } from 'core/component'
+import { renderHeadless, sendKeys } from 'testing'
+
+interface FieldProps {
+  name: string
+  autoFocus?: boolean
+  log: string[]
+}
+
+function Field ({ name, autoFocus, log }: FieldProps): VNode {
+  const { isFocused } = useFocus({ autoFocus })
+  useInput(key => {
+    log.push(`${name}:${key.name}`)
+    return key.name === 'x'
+  })
+  return intrinsics.text({}, `${isFocused ? '>' : ' '}${name}`)
+}
+
+describe('FocusManager', () => {
+  it('moves focus with tab and shift-tab in tree order', () => {
+    const log: string[] = []
+    const renderer = renderHeadless(() => intrinsics.vbox({},
+      VComponent('a', { name: 'a', autoFocus: true, log }, Field),
+      VComponent('b', { name: 'b', log }, Field)
+    ), {}, { width: 4, height: 2 })
+    expect(renderer.lines.map(line => line.trimEnd())).toEqual(['>a', ' b'])
+
+    sendKeys(renderer, 'tab')
+    expect(renderer.lines.map(line => line.trimEnd())).toEqual([' a', '>b'])
+    sendKeys(renderer, 'shift+tab')
+    expect(renderer.lines.map(line => line.trimEnd())).toEqual(['>a', ' b'])
+    renderer.dispose()
+  })
+
+  it('bubbles keys from the focused component until handled', () => {
+    const log: string[] = []
+    const renderer = renderHeadless(() => {
+      useInput(key => { log.push(`root:${key.name}`) })
+      return VComponent('a', { name: 'a', autoFocus: true, log }, Field)
+    }, {}, { width: 4, height: 1 })
+
+    sendKeys(renderer, 'x y')
+    expect(log).toEqual(['a:x', 'a:y', 'root:y'])
+    renderer.dispose()
+  })
+
+  it('auto-focuses a component which replaces the focused one', () => {
+    const log: string[] = []
+    const renderer = renderHeadless(() => {
+      const step = useState(0)
+      useInput(key => {
+        if (key.name === 'n') {
+          step.v++
+        }
+      })
+      return VComponent(`field-${step.v}`, { name: `${step.v}`, autoFocus: true, log }, Field)
+    }, {}, { width: 4, height: 1 })
+
+    sendKeys(renderer, 'n')
+    expect(renderer.lines[0].trimEnd()).toBe('>1')
+    sendKeys(renderer, 'z')
+    expect(log).toEqual(['0:n', '1:z'])
+    renderer.dispose()
+  })
+})
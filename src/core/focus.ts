@@ -0,0 +1,249 @@
+import type { VComponent } from 'core/component'
+import { VNode } from 'core/view'
+import { Key } from '@raycenity/misc-ts'
+
+export interface FocusOptions {
+  /** Whether tab / shift-tab can move focus to the component. Otherwise it can only be focused programmatically. Default is true */
+  tabbable?: boolean
+  /** Focus the component when it's created if nothing else is focused, or when the focused component is removed. Default is false */
+  autoFocus?: boolean
+}
+
+/** Handles a key routed by focus. Return `true` if the key was handled, so it doesn't bubble to ancestors */
+// eslint-disable-next-line @typescript-eslint/no-invalid-void-type
+export type FocusInputHandler = (key: Key) => boolean | void
+
+interface Focusable {
+  opts: FocusOptions
+  onChange: (isFocused: boolean) => void
+}
+
+/**
+ * Tracks which component is focused and routes keyboard input.
+ *
+ * If a component is focused, keys go to its input handlers, then bubble to its ancestors' until one returns `true`.
+ * If nothing is focused, every handler gets every key.
+ * Then if no handler returned `true`, global handlers (`useGlobalInput`) get the key.
+ * If no handler returned `true`, tab and shift-tab move focus to the next and previous tabbable component, in tree order.
+ */
+export class FocusManager {
+  private readonly focusables: Map<VComponent, Focusable> = new Map()
+  private readonly inputHandlers: Map<VComponent, Set<FocusInputHandler>> = new Map()
+  private readonly globalInputHandlers: Set<FocusInputHandler> = new Set()
+  private readonly focusListeners: Set<(focused: VComponent | null) => void> = new Set()
+  private _focused: VComponent | null = null
+  private removePlatformInput: (() => void) | null = null
+
+  /**
+   * @param getRoot Returns the root component, used to find tree order and ancestors
+   * @param usePlatformInput Listens for keys on the platform, returns a function which stops
+   */
+  constructor (
+    private readonly getRoot: () => VComponent | null,
+    private readonly usePlatformInput: (handler: (key: Key) => void) => () => void
+  ) {}
+
+  /** The focused component, or `null` if nothing is */
+  get focused (): VComponent | null {
+    return this._focused
+  }
+
+  /** The root, then its descendants down to the focused component. Empty if nothing is focused */
+  get focusedPath (): VComponent[] {
+    return this._focused === null || this._focused.isDead ? [] : this.pathTo(this._focused)
+  }
+
+  /** Makes the component focusable. `onChange` is called when it gains or loses focus. Returns a function which removes it */
+  useFocusable (component: VComponent, opts: FocusOptions, onChange: (isFocused: boolean) => void): () => void {
+    this.focusables.set(component, { opts, onChange })
+    if ((opts.autoFocus ?? false) && this._focused === null) {
+      this.focus(component)
+    }
+    return () => {
+      this.focusables.delete(component)
+      if (this._focused === component) {
+        this._focused = null
+        // A replacement is created before the component it replaces is removed, so it couldn't auto-focus then
+        const autoFocusable = [...this.focusables].reverse().find(([, focusable]) => focusable.opts.autoFocus ?? false)
+        if (autoFocusable !== undefined) {
+          this.focus(autoFocusable[0])
+        } else {
+          for (const listener of [...this.focusListeners]) {
+            listener(null)
+          }
+        }
+      }
+    }
+  }
+
+  /** Calls `handler` on keys routed to the component (see class docs). Returns a function which removes it */
+  useInput (component: VComponent, handler: FocusInputHandler): () => void {
+    this.updatePlatformInput(true)
+    let handlers = this.inputHandlers.get(component)
+    if (handlers === undefined) {
+      handlers = new Set()
+      this.inputHandlers.set(component, handlers)
+    }
+    handlers.add(handler)
+
+    return () => {
+      handlers!.delete(handler)
+      if (handlers!.size === 0) {
+        this.inputHandlers.delete(component)
+      }
+      this.updatePlatformInput(false)
+    }
+  }
+
+  /** Calls `handler` on keys which no focused or bubbled-to handler returned `true` for, regardless of focus. Returns a function which removes it */
+  useGlobalInput (handler: FocusInputHandler): () => void {
+    this.updatePlatformInput(true)
+    this.globalInputHandlers.add(handler)
+    return () => {
+      this.globalInputHandlers.delete(handler)
+      this.updatePlatformInput(false)
+    }
+  }
+
+  /** Calls `handler` when focus moves. Returns a function which removes it */
+  useFocusChange (handler: (focused: VComponent | null) => void): () => void {
+    this.focusListeners.add(handler)
+    return () => {
+      this.focusListeners.delete(handler)
+    }
+  }
+
+  /** Listens for platform keys while there are handlers */
+  private updatePlatformInput (isAdding: boolean): void {
+    if (isAdding && this.removePlatformInput === null) {
+      this.removePlatformInput = this.usePlatformInput(this.handleKey)
+    } else if (!isAdding && this.inputHandlers.size === 0 && this.globalInputHandlers.size === 0 && this.removePlatformInput !== null) {
+      this.removePlatformInput()
+      this.removePlatformInput = null
+    }
+  }
+
+  /** Focuses the component, which must be focusable, or if `null`, removes focus */
+  focus (component: VComponent | null): void {
+    if (component !== null && !this.focusables.has(component)) {
+      throw new Error(`component isn't focusable: ${component.key}. Call useFocus inside of it`)
+    }
+    if (this._focused === component) {
+      return
+    }
+
+    const prevFocused = this._focused
+    this._focused = component
+    if (prevFocused !== null) {
+      this.focusables.get(prevFocused)?.onChange(false)
+    }
+    if (component !== null) {
+      this.focusables.get(component)!.onChange(true)
+    }
+    for (const listener of [...this.focusListeners]) {
+      listener(component)
+    }
+  }
+
+  /** Moves focus to the next tabbable component in tree order, wrapping around */
+  focusNext (): void {
+    this.focusOffset(1)
+  }
+
+  /** Moves focus to the previous tabbable component in tree order, wrapping around */
+  focusPrevious (): void {
+    this.focusOffset(-1)
+  }
+
+  private focusOffset (offset: 1 | -1): void {
+    const tabbables = this.treeOrder().filter(component => this.focusables.get(component)!.opts.tabbable ?? true)
+    if (tabbables.length === 0) {
+      return
+    }
+
+    const index = this._focused === null ? -1 : tabbables.indexOf(this._focused)
+    let nextIndex: number
+    if (index === -1) {
+      nextIndex = offset === 1 ? 0 : tabbables.length - 1
+    } else {
+      nextIndex = (index + offset + tabbables.length) % tabbables.length
+    }
+    this.focus(tabbables[nextIndex])
+  }
+
+  private readonly handleKey = (key: Key): void => {
+    let isHandled = false
+    if (this._focused === null || this._focused.isDead) {
+      // Copy because handlers may be added or removed while handling
+      for (const handlers of [...this.inputHandlers.values()]) {
+        for (const handler of [...handlers]) {
+          isHandled = handler(key) === true || isHandled
+        }
+      }
+    } else {
+      // Bubble from the focused component to the root
+      const path = this.pathTo(this._focused)
+      for (let i = path.length - 1; i >= 0 && !isHandled; i--) {
+        for (const handler of [...this.inputHandlers.get(path[i]) ?? []]) {
+          isHandled = handler(key) === true || isHandled
+        }
+      }
+    }
+    for (const handler of [...this.globalInputHandlers]) {
+      isHandled = isHandled || handler(key) === true
+    }
+
+    if (!isHandled && key.name === 'tab' && !key.ctrl && !key.meta) {
+      if (key.shift) {
+        this.focusPrevious()
+      } else {
+        this.focusNext()
+      }
+    }
+  }
+
+  /** Focusable components in depth-first order of the rendered tree */
+  private treeOrder (): VComponent[] {
+    const result: VComponent[] = []
+    const root = this.getRoot()
+    if (root !== null) {
+      FocusManager.visit(root, component => {
+        if (this.focusables.has(component)) {
+          result.push(component)
+        }
+        return false
+      })
+    }
+    return result
+  }
+
+  /** Root, then its descendants down to the component. Just the component if it's not in the tree */
+  private pathTo (component: VComponent): VComponent[] {
+    const path: VComponent[] = []
+    const root = this.getRoot()
+    if (root !== null) {
+      FocusManager.visit(root, (descendant, ancestors) => {
+        if (descendant === component) {
+          path.push(...ancestors, descendant)
+          return true
+        }
+        return false
+      })
+    }
+    return path.length === 0 ? [component] : path
+  }
+
+  /** Visits components depth-first until `visitor` returns true */
+  private static visit (node: VNode, visitor: (component: VComponent, ancestors: VComponent[]) => boolean, ancestors: VComponent[] = []): boolean {
+    if (node.type === 'component') {
+      if (visitor(node, ancestors)) {
+        return true
+      }
+      return node.node !== null && FocusManager.visit(node.node, visitor, [...ancestors, node])
+    } else if (node.type === 'box') {
+      return node.children.some(child => FocusManager.visit(child, visitor, ancestors))
+    } else {
+      return false
+    }
+  }
+}
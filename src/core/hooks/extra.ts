@@ -1,6 +1,7 @@
-import { getRenderer } from 'core/component'
-import { Key } from '@raycenity/misc-ts'
-import { useDynamic, useEffect, UseEffectRerun, useStateFast } from 'core'
+import { getRenderer, getVComponent } from 'core/component'
+import { MouseInput, Rectangle, Size, useDynamic, useEffect, UseEffectRerun, useStateFast } from 'core'
+import { FocusInputHandler, FocusManager, FocusOptions } from 'core/focus'
+import { Keymap, KeymapOptions } from 'core/keymap'
 
 /** Returns a function which will always be called with the latest props and state dependencies. */
 export function useDynamicFn<Parameters extends any[], Return> (
@@ -43,16 +44,121 @@ export function useLazy <T> (lazy: T | Promise<T>, loading: T): T {
 
 /**
  * Read keyboard input inside of your component.
+ *
+ * If a component is focused (see `useFocus`), only it and its ancestors get keys:
+ * they bubble from the focused component up until a handler returns `true`.
+ * If nothing is focused, every component gets every key.
+ */
+export function useInput (handler: FocusInputHandler): void {
+  handler = useDynamicFn(handler)
+
+  const renderer = getRenderer()
+  const component = getVComponent()
+  useEffect(() => {
+    return renderer.focus.useInput(component, handler)
+  }, 'on-create')
+}
+
+export interface UseFocus {
+  isFocused: boolean
+  focus: () => void
+  /** Removes focus if this component has it */
+  blur: () => void
+}
+
+/**
+ * Makes your component focusable: it can be focused with tab / shift-tab (unless `tabbable` is false) or `focus`,
+ * and while focused its `useInput` handlers get keys before other components'.
+ */
+export function useFocus (opts: FocusOptions = {}): UseFocus {
+  const renderer = getRenderer()
+  const component = getVComponent()
+  const [isFocused, setIsFocused] = useStateFast(renderer.focus.focused === component)
+  useEffect(() => {
+    return renderer.focus.useFocusable(component, opts, setIsFocused)
+  }, 'on-create')
+  return {
+    isFocused,
+    focus: () => renderer.focus.focus(component),
+    blur: () => {
+      if (renderer.focus.focused === component) {
+        renderer.focus.focus(null)
+      }
+    }
+  }
+}
+
+/**
+ * Binds keys and key sequences to actions, e.g. `useKeymap({ 'ctrl+s': save, 'g g': top })`. See `Keymap` for the syntax.
+ *
+ * Keys are routed like `useInput`, so by default the bindings only apply while the component or a descendant is focused, or nothing is.
+ * With `scope: 'global'` they also apply when the focused component doesn't handle the key.
+ * Conflicting bindings log a warning, and `KeymapHelp` lists the active bindings.
  */
-export function useInput (handler: (key: Key) => void): void {
+export function useKeymap (keymap: Keymap, opts: KeymapOptions = {}): void {
+  const getKeymap = useDynamic(keymap)
+
+  const renderer = getRenderer()
+  const component = getVComponent()
+  useEffect(() => {
+    return renderer.keymaps.useKeymap(component, getKeymap, opts)
+  }, 'on-create')
+}
+
+/** Returns the renderer's focus manager, to e.g. move focus with `focusNext` or focus another component */
+export function useFocusManager (): FocusManager {
+  return getRenderer().focus
+}
+
+/**
+ * Read mouse input inside of your component. Positions are in columns and rows from the top-left of the terminal or container.
+ *
+ * If `onlyInside` is true (default), the handler only gets events over the component's rendered rectangle.
+ * Except, after a press inside, it gets every event until the release, so drags and the release outside are still handled.
+ */
+export function useMouse (handler: (mouse: MouseInput) => void, onlyInside: boolean = true): void {
   handler = useDynamicFn(handler)
 
   const renderer = getRenderer()
+  const component = getVComponent()
   useEffect(() => {
-    return renderer.useInput(handler)
+    let isCaptured = false
+    return renderer.useMouse(mouse => {
+      if (!onlyInside) {
+        handler(mouse)
+        return
+      }
+
+      const isInside = Rectangle.contains(renderer.getRenderedRect(component), mouse.x, mouse.y)
+      if (isInside || isCaptured) {
+        if (mouse.type === 'press') {
+          isCaptured = true
+        } else if (mouse.type === 'release') {
+          isCaptured = false
+        }
+        // Click comes after release, so only send it if it's inside
+        if (mouse.type !== 'click' || isInside) {
+          handler(mouse)
+        }
+      }
+    })
   }, 'on-create')
 }
 
+/**
+ * Returns the size of the terminal, or in the browser the container, in columns and rows.
+ * The component updates when it's resized, so it can adapt its layout.
+ * Dimensions which are unbounded (e.g. output isn't a terminal) are `Infinity`.
+ */
+export function useTerminalSize (): Size {
+  const renderer = getRenderer()
+  const [size, setSize] = useStateFast(renderer.getRootSize())
+  useEffect(() => {
+    return renderer.useResize(setSize)
+  }, 'on-create')
+  return size
+}
+
 /**
  * Performs an action after the specified delay.
  *
@@ -61,9 +167,9 @@ export function useInput (handler: (key: Key) => void): void {
 export function useDelay (millis: number, handler: () => void, rerun: UseEffectRerun): void {
   handler = useDynamicFn(handler)
 
+  const renderer = getRenderer()
   useEffect(() => {
-    const timeout = setTimeout(handler, millis)
-    return () => clearTimeout(timeout)
+    return renderer.clock.setTimeout(handler, millis)
   }, rerun)
 }
 
@@ -73,8 +179,8 @@ export function useDelay (millis: number, handler: () => void, rerun: UseEffectR
 export function useInterval (millis: number, handler: () => void): void {
   handler = useDynamicFn(handler)
 
+  const renderer = getRenderer()
   useEffect(() => {
-    const interval = setInterval(handler, millis)
-    return () => clearInterval(interval)
+    return renderer.clock.setInterval(handler, millis)
   }, 'on-create')
 }
@@ -4,4 +4,4 @@ export type { StateContext } from 'core/hooks/intrinsic/state-context'
 export { createStateContext } from 'core/hooks/intrinsic/state-context'
 export type { UseEffectRerunOnChange, UseEffectRerunOnDefine, UseEffectRerun } from 'core/hooks/intrinsic/effect'
 export { useEffect } from 'core/hooks/intrinsic/effect'
-export { useState, useStateFast, useDynamic } from 'core/hooks/intrinsic/state-dynamic'
+export { useState, useStateFast, useDynamic, useMemo } from 'core/hooks/intrinsic/state-dynamic'
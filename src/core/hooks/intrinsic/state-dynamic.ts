@@ -52,6 +52,24 @@ export function useDynamic<T> (value: T): () => T {
   return get
 }
 
+/**
+ * Returns the result of `compute`, which is only called again when `deps` change (compared with `===`),
+ * e.g. to avoid redoing expensive work whenever the component updates.
+ */
+export function useMemo<T> (compute: () => T, deps: readonly unknown[]): T {
+  const [getMemo, setMemo] = _useDynamicState<{ deps: readonly unknown[], value: T } | null>(null, false)
+  const memo = getMemo()
+  if (memo !== null && memo.deps.length !== deps.length) {
+    throw new Error(`number of dependencies changed in between component update (you can't do that): ${memo.deps.length} to ${deps.length}`)
+  }
+  if (memo === null || memo.deps.some((dep, i) => dep !== deps[i])) {
+    const value = compute()
+    setMemo({ deps, value })
+    return value
+  }
+  return memo.value
+}
+
 export function _useDynamicState<T> (initialState: T, doUpdate: boolean): [() => T, (newState: T) => void] {
   const component = getVComponent()
   const index = component.nextStateIndex++
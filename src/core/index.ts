@@ -2,6 +2,11 @@ export * from 'core/view'
 export * from 'core/hooks'
 export * from 'core/platform'
 export * from 'core/renderer'
+export * from 'core/clock'
+export * from 'core/mouse'
+export * from 'core/focus'
+export * from 'core/keymap'
+export * from 'core/paste'
 export { setGlobalComponentOpts } from 'core/component'
 export type { VComponent } from 'core/component'
 export type { Lens } from 'core/lens'
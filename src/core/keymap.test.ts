@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { intrinsics, useFocus, useInput, useKeymap, VNode } from 'core'
+import { VComponent } from 'core/component'
+import { KEY_SEQUENCE_TIMEOUT, KeyChord, KeySequence } from 'core/keymap'
+import { FakeClock, renderHeadless, sendKeys } from 'testing'
+
+describe('KeyChord', () => {
+  it('parses modifiers, aliases and uppercase letters', () => {
+    expect(KeyChord.parse('Control+Enter')).toEqual({ name: 'return', ctrl: true, meta: false, shift: false })
+    expect(KeyChord.parse('G')).toEqual({ name: 'g', ctrl: false, meta: false, shift: true })
+    expect(KeyChord.parse('?')).toEqual({ name: '?', ctrl: false, meta: false, shift: undefined })
+    expect(KeySequence.format(KeySequence.parse(' shift+alt+x  ctrl++ '))).toBe('alt+shift+x ctrl++')
+  })
+
+  it('throws on bad chords', () => {
+    expect(() => KeyChord.parse('ctrl+')).toThrow('bad key chord: ctrl+')
+    expect(() => KeyChord.parse('super+a')).toThrow('bad key chord: super+a, unknown modifier super')
+    expect(() => KeySequence.parse(' ')).toThrow('bad key sequence: empty')
+  })
+})
+
+describe('useKeymap', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('runs chords and sequences, waiting for the rest of a sequence whose start is bound on its own', () => {
+    const clock = new FakeClock()
+    const log: string[] = []
+    const Editor = (): VNode => {
+      useFocus({ autoFocus: true })
+      useKeymap({ 'ctrl+s': () => log.push('save'), g: () => log.push('g'), 'g g': () => log.push('top') })
+      return intrinsics.text({}, '')
+    }
+    const renderer = renderHeadless((): VNode => {
+      useInput(key => { log.push(`input:${key.name}`) })
+      return VComponent('editor', {}, Editor)
+    }, {}, { width: 1, height: 1, clock })
+
+    sendKeys(renderer, 'ctrl+s g g')
+    expect(log).toEqual(['save', 'top'])
+    sendKeys(renderer, 'g')
+    clock.advance(KEY_SEQUENCE_TIMEOUT)
+    expect(log).toEqual(['save', 'top', 'g'])
+    sendKeys(renderer, 'g x')
+    expect(log).toEqual(['save', 'top', 'g', 'g', 'input:x'])
+    renderer.dispose()
+  })
+
+  it('applies focused bindings only in the focused component, and global bindings anywhere', () => {
+    const log: string[] = []
+    const Pane = ({ name }: { name: string }): VNode => {
+      useFocus({ autoFocus: name === 'a' })
+      useKeymap({ x: () => log.push(`${name}:x`) })
+      return intrinsics.text({}, name)
+    }
+    const renderer = renderHeadless((): VNode => {
+      useKeymap({ q: () => log.push('quit') }, { scope: 'global' })
+      return intrinsics.vbox({}, VComponent('a', { name: 'a' }, Pane), VComponent('b', { name: 'b' }, Pane))
+    }, {}, { width: 1, height: 2 })
+
+    sendKeys(renderer, 'x q tab x')
+    expect(log).toEqual(['a:x', 'quit', 'b:x'])
+    expect(renderer.keymaps.activeBindings.map(binding => binding.keys)).toEqual(['x', 'q'])
+    renderer.dispose()
+  })
+
+  it('warns about keys bound twice in the same scope', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const renderer = renderHeadless((): VNode => {
+      useKeymap({ 'ctrl+s': () => {} }, { scope: 'global' })
+      useKeymap({ 'control+s': () => {} }, { scope: 'global' })
+      return intrinsics.text({}, '')
+    }, {}, { width: 1, height: 1 })
+
+    expect(renderer.keymaps.conflicts.map(conflict => conflict.keys)).toEqual(['ctrl+s'])
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('keymap conflict: ctrl+s'))
+    renderer.dispose()
+  })
+})
@@ -0,0 +1,371 @@
+import type { VComponent } from 'core/component'
+import type { FocusManager } from 'core/focus'
+import { Clock } from 'core/clock'
+import { Key } from '@raycenity/misc-ts'
+
+/** Milliseconds to wait for the next key of a sequence, if the keys so far are also bound on their own */
+export const KEY_SEQUENCE_TIMEOUT = 1000
+
+/** A key and its modifiers, e.g. `ctrl+s` */
+export interface KeyChord {
+  /** Lowercase, e.g. `s`, `return`, `?` */
+  name: string
+  ctrl: boolean
+  /** Alt or meta */
+  meta: boolean
+  /** `undefined` matches either, which is the default for symbols since whether they're typed with shift depends on the keyboard layout */
+  shift: boolean | undefined
+}
+
+export type KeyAction = () => void
+
+export interface KeyBinding {
+  action: KeyAction
+  /** Shown in `KeymapHelp` */
+  description?: string
+}
+
+/**
+ * Key bindings, e.g. `{ 'ctrl+s': save, 'g g': { action: top, description: 'Go to top' } }`.
+ *
+ * Each key is a sequence of chords separated by spaces. Each chord is modifiers (`ctrl`, `alt` / `meta`, `shift`)
+ * and a key name (`a`, `return` / `enter`, `escape` / `esc`, `up`, `f1`, `space`, `?`, ...) separated by `+`.
+ * An uppercase letter is the same as `shift+` the letter. `undefined` bindings are ignored, so they can be conditional.
+ */
+export interface Keymap {
+  [keys: string]: KeyAction | KeyBinding | undefined
+}
+
+export interface KeymapOptions {
+  /**
+   * `focused` (default): like `useInput`, the bindings apply while the component or a descendant is focused, or when nothing is focused.
+   * `global`: the bindings also apply when something else is focused, if it and its ancestors don't handle the key.
+   */
+  scope?: 'focused' | 'global'
+}
+
+/** A binding which would handle its keys right now */
+export interface ActiveKeyBinding {
+  /** Normalized, e.g. `ctrl+s`, `g g` */
+  keys: string
+  description: string | undefined
+  component: VComponent
+  scope: 'focused' | 'global'
+}
+
+/** Keys bound more than once in the same component, or more than once globally */
+export interface KeymapConflict {
+  /** Normalized, e.g. `ctrl+s`, `g g` */
+  keys: string
+  components: VComponent[]
+}
+
+interface ParsedBinding {
+  keys: string
+  sequence: KeyChord[]
+  action: KeyAction
+  description: string | undefined
+}
+
+interface KeymapEntry {
+  component: VComponent
+  scope: 'focused' | 'global'
+  getKeymap: () => Keymap
+  /** Parsed from the keymap when its keys were `bindingsKeys` */
+  bindings: ParsedBinding[]
+  bindingsKeys: string
+  /** Keys pressed so far in a sequence */
+  pending: Key[]
+  /** Called if the sequence times out, because the pending keys are bound on their own */
+  pendingAction: KeyAction | null
+  cancelPending: (() => void) | null
+}
+
+const NAME_ALIASES: Record<string, string> = {
+  enter: 'return',
+  esc: 'escape',
+  del: 'delete',
+  ' ': 'space',
+  plus: '+',
+  arrowup: 'up',
+  arrowdown: 'down',
+  arrowleft: 'left',
+  arrowright: 'right'
+}
+
+export module KeyChord {
+  /** Parses e.g. `ctrl+s`, `shift+tab`, `G`, `ctrl++` */
+  export function parse (chord: string): KeyChord {
+    // The last + is the key if the chord ends with ++, e.g. ctrl++
+    const parts = chord.endsWith('++') ? [...chord.slice(0, -2).split('+'), '+'] : chord.split('+')
+    const rawName = parts.pop()!
+    if (rawName === '') {
+      throw new Error(`bad key chord: ${chord}`)
+    }
+    const result: KeyChord = {
+      name: normalizeName(rawName),
+      ctrl: false,
+      meta: false,
+      shift: /^[a-z0-9]$/i.test(rawName) || rawName.length > 1 ? false : undefined
+    }
+    if (/^[A-Z]$/.test(rawName)) {
+      result.shift = true
+    }
+    for (const modifier of parts) {
+      switch (modifier.toLowerCase()) {
+        case 'ctrl':
+        case 'control':
+          result.ctrl = true
+          break
+        case 'alt':
+        case 'meta':
+        case 'option':
+          result.meta = true
+          break
+        case 'shift':
+          result.shift = true
+          break
+        default:
+          throw new Error(`bad key chord: ${chord}, unknown modifier ${modifier}`)
+      }
+    }
+    return result
+  }
+
+  export function matches (chord: KeyChord, key: Key): boolean {
+    const name = normalizeName(key.name)
+    const shift = key.shift || /^[A-Z]$/.test(key.name)
+    return chord.name === name &&
+      chord.ctrl === key.ctrl &&
+      chord.meta === key.meta &&
+      (chord.shift === undefined || chord.shift === shift)
+  }
+
+  /** Inverse of `parse`, with modifiers in a consistent order */
+  export function format (chord: KeyChord): string {
+    return [
+      ...chord.ctrl ? ['ctrl'] : [],
+      ...chord.meta ? ['alt'] : [],
+      ...chord.shift === true ? ['shift'] : [],
+      chord.name
+    ].join('+')
+  }
+
+  function normalizeName (name: string): string {
+    const lower = name.toLowerCase()
+    return NAME_ALIASES[lower] ?? lower
+  }
+}
+
+export module KeySequence {
+  /** Parses chords separated by spaces, e.g. `g g`, `ctrl+x ctrl+s` */
+  export function parse (keys: string): KeyChord[] {
+    const chords = keys.trim().split(/\s+/)
+    if (chords[0] === '') {
+      throw new Error('bad key sequence: empty')
+    }
+    return chords.map(KeyChord.parse)
+  }
+
+  export function format (sequence: KeyChord[]): string {
+    return sequence.map(KeyChord.format).join(' ')
+  }
+
+  /** Whether `keys` match the start of `sequence` */
+  export function startsWith (sequence: KeyChord[], keys: Key[]): boolean {
+    return keys.length <= sequence.length && keys.every((key, i) => KeyChord.matches(sequence[i], key))
+  }
+}
+
+/**
+ * Tracks the keymaps of `useKeymap`, dispatches keys to their bindings, and lists active bindings for `KeymapHelp`.
+ *
+ * Keys are routed by the focus manager (see `FocusManager`), then each keymap matches them against its bindings.
+ * If the keys so far start a longer sequence, the keymap waits for the next key; and if they're also bound on their own,
+ * they run after `KEY_SEQUENCE_TIMEOUT` or when the next key doesn't continue the sequence.
+ */
+export class KeymapManager {
+  private readonly entries: Set<KeymapEntry> = new Set()
+  private readonly changeListeners: Set<() => void> = new Set()
+
+  constructor (
+    private readonly focus: FocusManager,
+    private readonly getClock: () => Clock
+  ) {
+    focus.useFocusChange(() => this.notifyChange())
+  }
+
+  /**
+   * Adds the component's keymap. `getKeymap` returns the latest bindings, which may change.
+   * Warns about conflicts (see `conflicts`). Returns a function which removes it
+   */
+  useKeymap (component: VComponent, getKeymap: () => Keymap, opts: KeymapOptions = {}): () => void {
+    const scope = opts.scope ?? 'focused'
+    const entry: KeymapEntry = {
+      component,
+      scope,
+      getKeymap,
+      bindings: [],
+      bindingsKeys: '',
+      pending: [],
+      pendingAction: null,
+      cancelPending: null
+    }
+    this.entries.add(entry)
+    this.refresh(entry)
+    this.notifyChange()
+
+    const handler = (key: Key): boolean => this.handleKey(entry, key)
+    const removeInput = scope === 'global'
+      ? this.focus.useGlobalInput(handler)
+      : this.focus.useInput(component, handler)
+    return () => {
+      removeInput()
+      entry.cancelPending?.()
+      this.entries.delete(entry)
+      this.notifyChange()
+    }
+  }
+
+  /** Bindings which would handle their keys right now: the focused component's first, then its ancestors', then global ones. Shadowed bindings are omitted */
+  get activeBindings (): ActiveKeyBinding[] {
+    const path = this.focus.focusedPath
+    const entries = [...this.entries]
+    entries.forEach(entry => this.refresh(entry))
+    const focusedEntries = path.length === 0
+      ? entries.filter(entry => entry.scope === 'focused')
+      : path.slice().reverse().flatMap(component => entries.filter(entry => entry.scope === 'focused' && entry.component === component))
+    const globalEntries = entries.filter(entry => entry.scope === 'global')
+
+    const result: ActiveKeyBinding[] = []
+    const seen: Set<string> = new Set()
+    for (const entry of [...focusedEntries, ...globalEntries]) {
+      for (const binding of entry.bindings) {
+        if (!seen.has(binding.keys)) {
+          seen.add(binding.keys)
+          result.push({ keys: binding.keys, description: binding.description, component: entry.component, scope: entry.scope })
+        }
+      }
+    }
+    return result
+  }
+
+  /** Keys bound more than once in the same component, or more than once globally. The later binding is unreachable */
+  get conflicts (): KeymapConflict[] {
+    this.entries.forEach(entry => this.refresh(entry))
+    return this.findConflicts()
+  }
+
+  private findConflicts (): KeymapConflict[] {
+    const groups: Map<VComponent | 'global', KeymapEntry[]> = new Map()
+    for (const entry of this.entries) {
+      const group = entry.scope === 'global' ? 'global' : entry.component
+      groups.set(group, [...groups.get(group) ?? [], entry])
+    }
+
+    const result: KeymapConflict[] = []
+    for (const groupEntries of groups.values()) {
+      const components: Map<string, VComponent[]> = new Map()
+      for (const entry of groupEntries) {
+        for (const binding of entry.bindings) {
+          components.set(binding.keys, [...components.get(binding.keys) ?? [], entry.component])
+        }
+      }
+      for (const [keys, boundIn] of components) {
+        if (boundIn.length > 1) {
+          result.push({ keys, components: boundIn })
+        }
+      }
+    }
+    return result
+  }
+
+  /** Calls `handler` when keymaps are added or removed, or focus moves, so active bindings may have changed. Returns a function which removes it */
+  useChange (handler: () => void): () => void {
+    this.changeListeners.add(handler)
+    return () => {
+      this.changeListeners.delete(handler)
+    }
+  }
+
+  private handleKey (entry: KeymapEntry, key: Key): boolean {
+    this.refresh(entry)
+    entry.cancelPending?.()
+    entry.cancelPending = null
+
+    const keys = [...entry.pending, key]
+    const candidates = entry.bindings.filter(binding => KeySequence.startsWith(binding.sequence, keys))
+    const exact = candidates.find(binding => binding.sequence.length === keys.length)
+    if (candidates.length === 0) {
+      const pendingAction = entry.pendingAction
+      entry.pending = []
+      entry.pendingAction = null
+      if (keys.length === 1) {
+        return false
+      }
+      // The previous keys are done, and this key may start a new sequence
+      pendingAction?.()
+      return this.handleKey(entry, key)
+    } else if (exact !== undefined && candidates.length === 1) {
+      entry.pending = []
+      entry.pendingAction = null
+      exact.action()
+      return true
+    } else {
+      entry.pending = keys
+      entry.pendingAction = exact?.action ?? null
+      entry.cancelPending = this.getClock().setTimeout(() => {
+        const pendingAction = entry.pendingAction
+        entry.pending = []
+        entry.pendingAction = null
+        entry.cancelPending = null
+        pendingAction?.()
+      }, KEY_SEQUENCE_TIMEOUT)
+      return true
+    }
+  }
+
+  /**
+   * Re-parses the entry's bindings if its keys changed, then warns about new conflicts.
+   * Doesn't notify listeners, because it's called while rendering
+   */
+  private refresh (entry: KeymapEntry): void {
+    const keymap = entry.getKeymap()
+    const keys = Object.keys(keymap).filter(keys => keymap[keys] !== undefined)
+    const bindingsKeys = keys.join('\n')
+    if (bindingsKeys === entry.bindingsKeys) {
+      // Actions may still be new closures
+      entry.bindings.forEach((binding, i) => {
+        const value = keymap[keys[i]]!
+        binding.action = typeof value === 'function' ? value : value.action
+        binding.description = typeof value === 'function' ? undefined : value.description
+      })
+      return
+    }
+
+    entry.bindingsKeys = bindingsKeys
+    entry.bindings = keys.map(keysStr => {
+      const value = keymap[keysStr]!
+      const sequence = KeySequence.parse(keysStr)
+      return {
+        keys: KeySequence.format(sequence),
+        sequence,
+        action: typeof value === 'function' ? value : value.action,
+        description: typeof value === 'function' ? undefined : value.description
+      }
+    })
+    entry.pending = []
+    entry.pendingAction = null
+    for (const conflict of this.findConflicts()) {
+      if (conflict.components.includes(entry.component)) {
+        console.warn(`keymap conflict: ${conflict.keys} is bound more than once in ${conflict.components.map(component => component.key).join(', ')}`)
+      }
+    }
+  }
+
+  private notifyChange (): void {
+    for (const listener of [...this.changeListeners]) {
+      listener()
+    }
+  }
+}
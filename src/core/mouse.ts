@@ -0,0 +1,23 @@
+export type MouseButton = 'left' | 'middle' | 'right' | 'none'
+
+/**
+ * - `press` / `release`: a button was pressed / released
+ * - `click`: a button was pressed and released in the same cell (sent after the `release`)
+ * - `drag`: the mouse moved with a button pressed
+ * - `hover`: the mouse moved without any buttons pressed
+ * - `scroll`: the wheel was scrolled, see `scrollY`
+ */
+export type MouseInputType = 'press' | 'release' | 'click' | 'drag' | 'hover' | 'scroll'
+
+/** Mouse event, positioned in the same column / row coordinates as `Bounds` */
+export interface MouseInput {
+  type: MouseInputType
+  button: MouseButton
+  x: number
+  y: number
+  /** For `scroll`, rows scrolled: negative is up, positive is down. Otherwise 0 */
+  scrollY: number
+  ctrl: boolean
+  meta: boolean
+  shift: boolean
+}
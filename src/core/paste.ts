@@ -0,0 +1,15 @@
+import { Key } from '@raycenity/misc-ts'
+
+/** Name of the key `useInput` handlers get when text is pasted. Its `sequence` is the pasted text */
+export const PASTE_KEY_NAME = 'paste'
+
+/** The key renderers deliver when `text` is pasted (bracketed paste in the terminal, the paste event in the browser) */
+export function PasteKey (text: string): Key {
+  return {
+    name: PASTE_KEY_NAME,
+    sequence: text,
+    ctrl: false,
+    meta: false,
+    shift: false
+  }
+}
@@ -13,7 +13,7 @@ function createElement <Key extends keyof JSXIntrinsics> (
   element: Key,
   props: Omit<JSXIntrinsics[Key], 'children'>,
   ...children: IntoArray<JSXIntrinsics[Key]['children']>
-): VView
+): VNode
 function createElement <T extends VView, Props, Children extends any[]> (
   element: (props: Props & { children?: Children }) => T,
   props: Props & { key?: string },
@@ -35,7 +35,7 @@ function createElement <T extends VView, Props extends { key?: string }, Childre
     return VJSX.collapse(children as VJSX[])
   } else if (typeof element === 'string') {
     // Intrinsic element
-    const intrinsic = intrinsics[element]
+    const intrinsic: typeof intrinsics[keyof typeof intrinsics] | undefined = intrinsics[element]
     if (intrinsic === undefined) {
       throw new Error(`intrinsic element doesn't exist: ${element}`)
     } else {
@@ -1,7 +1,10 @@
 import { VView } from 'core/view/view'
 import { Size } from 'core/view'
+import { Clock, REAL_CLOCK } from 'core/clock'
 
 export interface Renderer {
+  /** Clock used by timer hooks and prompt timeouts */
+  readonly clock: Clock
   forceRerender: () => void
   reroot: <Props>(props?: Props, root?: (props: Props) => VView) => void
   show: () => void
@@ -11,10 +14,13 @@ export interface Renderer {
 
 export interface CoreRenderOptions {
   fps?: number
+  /** Clock used by timer hooks like `useDelay`. Default is the real clock */
+  clock?: Clock
 }
 
 export const DEFAULT_CORE_RENDER_OPTIONS: Required<CoreRenderOptions> = {
-  fps: 20
+  fps: 20,
+  clock: REAL_CLOCK
 }
 
 export const DEFAULT_COLUMN_SIZE: Size = {
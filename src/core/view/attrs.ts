@@ -4,22 +4,52 @@ import { Color, ColorSpec, LCHColor, RGBColor } from 'core/view/color'
 import type { DisplayObject } from 'pixi.js'
 import { DelayedSubLayout } from 'core'
 import { CustomDelayedSubLayout } from 'core/view/sub-layout'
+import { FlexItem } from 'core/view/flex'
+import { GridItem } from 'core/view/grid'
+import { TextFormat } from 'core/view/text-layout'
 
 export interface CommonAttrs {
   readonly bounds?: Bounds
   readonly visible?: boolean
   readonly key?: string
+  /** Only affects layout in a `horizontal` or `vertical` box */
+  readonly flex?: FlexItem
+  /** Only affects layout in a `grid` box */
+  readonly grid?: GridItem
 }
 
 export interface BoxAttrs extends CommonAttrs {
   readonly sublayout?: DelayedSubLayout
   readonly clip?: boolean
   readonly extend?: boolean
+  /** Offsets the children by the negative of this, and clips and extends to the bounds. Used by `scroll` */
+  readonly scrollOffset?: { x: number, y: number }
+  /** Whether to draw scrollbars when the children overflow. Only for boxes with `scrollOffset` */
+  readonly scrollbar?: boolean
 }
 
-export interface TextAttrs extends CommonAttrs {
+/** Style of text besides its foreground color */
+export interface TextStyle {
+  readonly bold?: boolean
+  readonly dim?: boolean
+  readonly italic?: boolean
+  readonly underline?: boolean
+  readonly strikethrough?: boolean
+  /** Swaps the foreground and background colors */
+  readonly inverse?: boolean
+  /** Color behind the characters */
+  readonly background?: Color
+}
+
+/** Part of a `text` view's text with its own style, created by a `span` */
+export interface TextSpan extends TextStyle {
+  readonly text: string
+  /** Default is the text view's color */
+  readonly color?: Color
+}
+
+export interface TextAttrs extends CommonAttrs, TextStyle, TextFormat {
   readonly color: Color | null
-  readonly wrapMode?: 'word' | 'char' | 'clip'
 }
 
 export interface ColorAttrs extends CommonAttrs {
@@ -50,7 +80,7 @@ export interface JSXSubLayoutAttrs {
   customSublayout?: CustomDelayedSubLayout
 }
 
-export type JSXTextAttrs = JSXColorAttrs<TextAttrs>
+export type JSXTextAttrs = Omit<JSXColorAttrs<TextAttrs>, 'background'> & { background?: ColorSpec }
 export type JSXBoxAttrs = Omit<BoxAttrs, 'sublayout'> & Omit<DelayedSubLayout, 'store' | 'keep' | 'custom'> & JSXSubLayoutAttrs & BoundsSpec
 export type JSXColorAttrs<T extends CommonAttrs & { color: Color | null } = ColorAttrs> = Omit<T, 'color'> & Partial<{ color: ColorSpec } & LCHColor & RGBColor> & BoundsSpec
 export type JSXBorderAttrs = JSXColorAttrs<BorderAttrs>
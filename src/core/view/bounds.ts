@@ -1,7 +1,7 @@
 import { assert } from '@raycenity/misc-ts'
 import { ParentSubLayout } from 'core/view/sub-layout'
 
-export type LayoutDirection = 'horizontal' | 'vertical' | 'overlap'
+export type LayoutDirection = 'horizontal' | 'vertical' | 'overlap' | 'grid'
 
 export type Measurement =
   Measurement2 |
@@ -31,6 +31,15 @@ export interface BoundingBox {
   anchorY: number
   width?: number
   height?: number
+  /** If set, the renderer clamps `width` to it, and if `width` is undefined, sets it to the clamped natural width */
+  widthConstraint?: SizeConstraint
+  /** If set, the renderer clamps `height` to it, and if `height` is undefined, sets it to the clamped natural height */
+  heightConstraint?: SizeConstraint
+}
+
+export interface SizeConstraint {
+  min: number
+  max: number
 }
 
 export interface Size {
@@ -49,6 +58,14 @@ export interface ParentBounds {
   boundingBox: BoundingBox
   sublayout: ParentSubLayout
   columnSize: Size
+  /** If the parent's width or height is undefined, percentages are of its natural size, which is computed lazily */
+  naturalSize?: () => Size
+  /**
+   * Whether we're measuring natural sizes.
+   * Then sizes which are percentages of undefined width or height are auto (and other percentages of them are 0),
+   * like CSS percentages don't contribute to an auto-sized parent
+   */
+  isMeasuring?: boolean
 }
 
 export type Bounds = (parent: ParentBounds, prevSibling: Rectangle | null) => BoundingBox
@@ -60,8 +77,28 @@ export interface FullBoundsSpec {
   z?: number
   anchorX?: number
   anchorY?: number
-  width?: Measurement
-  height?: Measurement
+  /** `fit-content` sets the width to the natural width, so children can use percentages of it */
+  width?: Measurement | 'fit-content'
+  /** `fit-content` sets the height to the natural height, so children can use percentages of it */
+  height?: Measurement | 'fit-content'
+  minWidth?: Measurement
+  maxWidth?: Measurement
+  minHeight?: Measurement
+  maxHeight?: Measurement
+  /** See `FlexItem` */
+  grow?: number
+  /** See `FlexItem` */
+  shrink?: number
+  /** See `FlexItem` */
+  basis?: Measurement
+  /** See `GridItem` */
+  column?: number
+  /** See `GridItem` */
+  row?: number
+  /** See `GridItem` */
+  columnSpan?: number
+  /** See `GridItem` */
+  rowSpan?: number
 }
 
 export type BoundsSpec = FullBoundsSpec
@@ -73,11 +110,32 @@ export function Bounds (spec: BoundsSpec): Bounds {
     z: spec.z ?? parent.boundingBox.z + Bounds.BOX_Z,
     anchorX: spec.anchorX ?? 0,
     anchorY: spec.anchorY ?? 0,
-    width: spec.width === undefined ? undefined : reifyX(parent, prevSibling?.width ?? null, spec.width),
-    height: spec.height === undefined ? undefined : reifyY(parent, prevSibling?.height ?? null, spec.height)
+    width: spec.width === undefined || spec.width === 'fit-content' || isUnknownPercent(parent, parent.boundingBox.width, spec.width)
+      ? undefined
+      : reifyX(parent, prevSibling?.width ?? null, spec.width),
+    height: spec.height === undefined || spec.height === 'fit-content' || isUnknownPercent(parent, parent.boundingBox.height, spec.height)
+      ? undefined
+      : reifyY(parent, prevSibling?.height ?? null, spec.height),
+    widthConstraint: spec.width === 'fit-content' || spec.minWidth !== undefined || spec.maxWidth !== undefined
+      ? {
+          min: spec.minWidth === undefined || isUnknownPercent(parent, parent.boundingBox.width, spec.minWidth) ? 0 : reifyX(parent, prevSibling?.width ?? null, spec.minWidth),
+          max: spec.maxWidth === undefined || isUnknownPercent(parent, parent.boundingBox.width, spec.maxWidth) ? Infinity : reifyX(parent, prevSibling?.width ?? null, spec.maxWidth)
+        }
+      : undefined,
+    heightConstraint: spec.height === 'fit-content' || spec.minHeight !== undefined || spec.maxHeight !== undefined
+      ? {
+          min: spec.minHeight === undefined || isUnknownPercent(parent, parent.boundingBox.height, spec.minHeight) ? 0 : reifyY(parent, prevSibling?.height ?? null, spec.minHeight),
+          max: spec.maxHeight === undefined || isUnknownPercent(parent, parent.boundingBox.height, spec.maxHeight) ? Infinity : reifyY(parent, prevSibling?.height ?? null, spec.maxHeight)
+        }
+      : undefined
   })
 }
 
+/** Whether the size is a percentage of the parent's size while we're still measuring it, so it's unconstrained */
+function isUnknownPercent (parent: ParentBounds, parentSize: number | undefined, size: Measurement): boolean {
+  return parent.isMeasuring === true && parentSize === undefined && typeof size === 'string' && size.includes('%')
+}
+
 function reifyX (parent: ParentBounds, prevSibling: number |'not-applicable' | null, x: Measurement | undefined): number {
   if (x === undefined) {
     return 0
@@ -88,10 +146,16 @@ function reifyX (parent: ParentBounds, prevSibling: number |'not-applicable' | n
   } else if (/^\d*\.\d+$/.test(x)) {
     return parseFloat(x)
   } else if (x.endsWith('%')) {
-    if (parent.boundingBox.width === undefined) {
-      throw new Error(`cannot convert percent ${x} to number because parent width is unknown`)
+    let parentWidth = parent.boundingBox.width
+    if (parentWidth === undefined) {
+      if (parent.isMeasuring === true) {
+        return 0
+      } else if (parent.naturalSize === undefined) {
+        throw new Error(`cannot convert percent ${x} to number because parent width is unknown`)
+      }
+      parentWidth = parent.naturalSize().width
     }
-    return (parent.boundingBox.width * parseFloat(x) / 100)
+    return (parentWidth * parseFloat(x) / 100)
   } else if (x.endsWith('px')) {
     return parseFloat(x) / parent.columnSize.width
   } else if (x === 'prev') {
@@ -123,10 +187,16 @@ function reifyY (parent: ParentBounds, prevSibling: number | 'not-applicable' |
   } else if (/^\d*\.\d+$/.test(y)) {
     return parseFloat(y)
   } else if (y.endsWith('%')) {
-    if (parent.boundingBox.height === undefined) {
-      throw new Error(`bad layout: cannot convert percent ${y} to number because parent height is unknown`)
+    let parentHeight = parent.boundingBox.height
+    if (parentHeight === undefined) {
+      if (parent.isMeasuring === true) {
+        return 0
+      } else if (parent.naturalSize === undefined) {
+        throw new Error(`bad layout: cannot convert percent ${y} to number because parent height is unknown`)
+      }
+      parentHeight = parent.naturalSize().height
     }
-    return (parent.boundingBox.height * parseFloat(y) / 100)
+    return (parentHeight * parseFloat(y) / 100)
   } else if (y.endsWith('px')) {
     return parseFloat(y) / parent.columnSize.height
   } else if (y === 'prev') {
@@ -166,6 +236,8 @@ function applyLayoutX (parent: ParentBounds, prevSibling: Rectangle | null, layo
         case 'vertical':
           return reified + parent.boundingBox.x
         case 'overlap':
+        case 'grid':
+          // Grid children are positioned by the renderer
           return reified + parent.boundingBox.x
         case undefined:
           if (prevSibling !== null) {
@@ -194,6 +266,8 @@ function applyLayoutY (parent: ParentBounds, prevSibling: Rectangle | null, layo
           return reified + (prevSibling !== null ? prevSibling.top + prevSibling.height + gap : getLayoutBoundingBoxTop(parent.boundingBox))
         }
         case 'overlap':
+        case 'grid':
+          // Grid children are positioned by the renderer
           return reified + parent.boundingBox.y
         case undefined:
           if (prevSibling !== null) {
@@ -204,6 +278,18 @@ function applyLayoutY (parent: ParentBounds, prevSibling: Rectangle | null, layo
   }
 }
 
+export module Measurement {
+  /** Converts a horizontal measurement (e.g. `'50% - 2'`) into columns */
+  export function reifyWidth (parent: ParentBounds, width: Measurement): number {
+    return reifyX(parent, 'not-applicable', width)
+  }
+
+  /** Converts a vertical measurement (e.g. `'50% - 2'`) into rows */
+  export function reifyHeight (parent: ParentBounds, height: Measurement): number {
+    return reifyY(parent, 'not-applicable', height)
+  }
+}
+
 export function getLayoutBoundingBoxLeft (bounds: BoundingBox): number {
   if (bounds.anchorX === 0) {
     return bounds.x
@@ -235,6 +321,10 @@ export module Rectangle {
     return JSON.stringify(a) === JSON.stringify(b)
   }
 
+  export function contains (rect: Rectangle | null, x: number, y: number): boolean {
+    return rect !== null && x >= rect.left && x < rect.left + rect.width && y >= rect.top && y < rect.top + rect.height
+  }
+
   export function union (a: Rectangle | null, b: Rectangle | null): Rectangle | null {
     if (a === null) {
       return b
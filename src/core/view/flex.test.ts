@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { FlexLayout, FlexLayoutItem, FlexLayoutOptions, intrinsics } from 'core'
+import { renderToString } from 'testing'
+
+const { hbox, text, vbox } = intrinsics
+
+const item = (basis: number, props: Partial<FlexLayoutItem> = {}): FlexLayoutItem => ({ basis, crossSize: 1, grow: 0, shrink: 1, ...props })
+const opts = (props: Partial<FlexLayoutOptions>): FlexLayoutOptions => ({ mainSize: 10, crossSize: 1, gap: 0, justify: 'start', align: 'start', wrap: false, ...props })
+
+describe('FlexLayout', () => {
+  it('grows items by their share of the leftover space', () => {
+    const slots = FlexLayout.layout([item(2, { grow: 1 }), item(2, { grow: 2 })], opts({}))
+
+    expect(slots.map(slot => [slot.main, slot.mainSize])).toEqual([[0, 4], [4, 6]])
+  })
+
+  it('shrinks items weighted by their basis', () => {
+    const slots = FlexLayout.layout([item(10), item(5), item(5, { shrink: 0 })], opts({}))
+
+    expect(slots.map(slot => slot.mainSize)).toEqual([3, 2, 5])
+  })
+
+  it('justifies leftover space', () => {
+    const mains = (justify: FlexLayoutOptions['justify']): number[] =>
+      FlexLayout.layout([item(2), item(2)], opts({ justify })).map(slot => slot.main)
+
+    expect(mains('end')).toEqual([6, 8])
+    expect(mains('center')).toEqual([3, 5])
+    expect(mains('space-between')).toEqual([0, 8])
+  })
+
+  it('wraps items which overflow into new lines', () => {
+    const slots = FlexLayout.layout([item(4), item(4), item(4)], opts({ wrap: true, gap: 1 }))
+
+    expect(slots.map(slot => [slot.main, slot.cross])).toEqual([[0, 0], [5, 0], [0, 2]])
+  })
+
+  it('stretches items across the line', () => {
+    const slots = FlexLayout.layout([item(2, { crossSize: 1 }), item(2, { crossSize: 3 })], opts({ crossSize: undefined, align: 'stretch' }))
+
+    expect(slots.map(slot => slot.crossSize)).toEqual([3, 3])
+  })
+})
+
+describe('flex boxes', () => {
+  it('grows children to fill the box', () => {
+    const rendered = renderToString(() => hbox({ width: 10 },
+      text({}, '['),
+      text({ flex: { grow: 1 }, align: 'center' }, 'mid'),
+      text({}, ']')
+    ), {}, { width: 10, height: 1 })
+
+    expect(rendered).toBe('[  mid   ]')
+  })
+
+  it('justifies and aligns children in a vertical box', () => {
+    const rendered = renderToString(() => vbox({ width: 6, height: 4, justify: 'end', align: 'end' },
+      text({}, 'ab'),
+      text({}, 'cde')
+    ), {}, { width: 6, height: 4 })
+
+    expect(rendered).toBe('\n\n    ab\n   cde')
+  })
+})
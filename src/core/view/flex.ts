@@ -0,0 +1,159 @@
+import { Measurement } from 'core/view/bounds'
+
+/** How a `horizontal` or `vertical` box distributes leftover space along its direction */
+export type FlexJustify = 'start' | 'end' | 'center' | 'space-between' | 'space-around' | 'space-evenly'
+
+/** How a `horizontal` or `vertical` box positions children across its direction. `stretch` makes them fill the line */
+export type FlexAlign = 'start' | 'end' | 'center' | 'stretch'
+
+/** Flex properties of a child in a `horizontal` or `vertical` box */
+export interface FlexItem {
+  /** Share of the box's leftover space the child takes. Default is 0 */
+  grow?: number
+  /** Share of the box's overflow the child gives up, weighted by its basis. Default is 1 */
+  shrink?: number
+  /** Size along the box's direction before growing or shrinking. Default is the child's rendered size */
+  basis?: Measurement
+}
+
+export interface FlexLayoutItem {
+  /** Size along the main axis before growing or shrinking */
+  basis: number
+  /** Size along the cross axis */
+  crossSize: number
+  grow: number
+  shrink: number
+}
+
+export interface FlexLayoutSlot {
+  /** Offset along the main axis from the start of the container */
+  main: number
+  /** Offset along the cross axis from the start of the container */
+  cross: number
+  mainSize: number
+  /** Only defined if the item is stretched */
+  crossSize: number | undefined
+}
+
+export interface FlexLayoutOptions {
+  /** Undefined if the container has no size along the axis, then there's no leftover space */
+  mainSize: number | undefined
+  crossSize: number | undefined
+  gap: number
+  justify: FlexJustify
+  align: FlexAlign
+  wrap: boolean
+}
+
+export module FlexLayout {
+  /**
+   * Positions and sizes items along the main and cross axes.
+   * Positions and sizes are rounded so items don't overlap or leave gaps in the terminal.
+   */
+  export function layout (items: FlexLayoutItem[], opts: FlexLayoutOptions): FlexLayoutSlot[] {
+    const { mainSize, crossSize, gap, justify, align, wrap } = opts
+    const slots: FlexLayoutSlot[] = []
+
+    const lines = breakLines(items, mainSize, gap, wrap)
+    let lineCrossOffset = 0
+    for (const line of lines) {
+      const lineItems = line.map(index => items[index])
+      const sizes = lineItems.map(item => item.basis)
+      const used = sizes.reduce((sum, size) => sum + size, 0) + (gap * (lineItems.length - 1))
+      let free = mainSize === undefined ? 0 : mainSize - used
+
+      // Grow or shrink
+      if (free > 0) {
+        const totalGrow = lineItems.reduce((sum, item) => sum + item.grow, 0)
+        if (totalGrow > 0) {
+          lineItems.forEach((item, i) => { sizes[i] += free * item.grow / totalGrow })
+          free = 0
+        }
+      } else if (free < 0) {
+        const totalShrink = lineItems.reduce((sum, item) => sum + (item.shrink * item.basis), 0)
+        if (totalShrink > 0) {
+          lineItems.forEach((item, i) => { sizes[i] = Math.max(0, sizes[i] + (free * item.shrink * item.basis / totalShrink)) })
+        }
+        free = 0
+      }
+
+      // Justify
+      let leading = 0
+      let between = gap
+      switch (justify) {
+        case 'start':
+          break
+        case 'end':
+          leading = free
+          break
+        case 'center':
+          leading = free / 2
+          break
+        case 'space-between':
+          if (lineItems.length > 1) {
+            between += free / (lineItems.length - 1)
+          }
+          break
+        case 'space-around':
+          leading = free / lineItems.length / 2
+          between += free / lineItems.length
+          break
+        case 'space-evenly':
+          leading = free / (lineItems.length + 1)
+          between += free / (lineItems.length + 1)
+          break
+      }
+
+      // Align
+      const lineCrossSize = lines.length === 1 && crossSize !== undefined
+        ? crossSize
+        : Math.max(0, ...lineItems.map(item => item.crossSize))
+      let offset = leading
+      lineItems.forEach((item, i) => {
+        const start = Math.round(offset)
+        const end = Math.round(offset + sizes[i])
+        offset += sizes[i] + between
+
+        let cross = lineCrossOffset
+        let itemCrossSize: number | undefined
+        switch (align) {
+          case 'start':
+            break
+          case 'end':
+            cross += lineCrossSize - item.crossSize
+            break
+          case 'center':
+            cross += Math.round((lineCrossSize - item.crossSize) / 2)
+            break
+          case 'stretch':
+            itemCrossSize = lineCrossSize
+            break
+        }
+        slots[line[i]] = { main: start, cross, mainSize: end - start, crossSize: itemCrossSize }
+      })
+      lineCrossOffset += lineCrossSize + gap
+    }
+
+    return slots
+  }
+
+  /** Splits items into lines of indices. Only breaks if `wrap` and the container has a main size */
+  function breakLines (items: FlexLayoutItem[], mainSize: number | undefined, gap: number, wrap: boolean): number[][] {
+    const lines: number[][] = []
+    let line: number[] = []
+    let lineSize = 0
+    items.forEach((item, index) => {
+      if (wrap && mainSize !== undefined && line.length > 0 && lineSize + gap + item.basis > mainSize) {
+        lines.push(line)
+        line = []
+        lineSize = 0
+      }
+      lineSize += (line.length > 0 ? gap : 0) + item.basis
+      line.push(index)
+    })
+    if (line.length > 0) {
+      lines.push(line)
+    }
+    return lines
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { GridItem, GridLayout, GridLayoutItem, intrinsics } from 'core'
+import { renderToString } from 'testing'
+
+const { grid, text } = intrinsics
+
+const item = (width: number, height: number, placement: GridItem = {}): GridLayoutItem => ({ width, height, ...placement })
+
+describe('GridLayout', () => {
+  it('fills free cells row by row and sizes auto tracks to fit', () => {
+    const slots = GridLayout.layout([item(3, 1), item(5, 1), item(2, 2)], { columns: ['auto', 'auto'], rows: [], columnGap: 1, rowGap: 0 })
+
+    expect(slots).toEqual([
+      { left: 0, top: 0, width: 3, height: 1 },
+      { left: 4, top: 0, width: 5, height: 1 },
+      { left: 0, top: 1, width: 3, height: 2 }
+    ])
+  })
+
+  it('places explicit positions first and flows the rest around them', () => {
+    const slots = GridLayout.layout([item(1, 1), item(1, 1, { column: 0, row: 0, columnSpan: 2 })], { columns: [2, 2], rows: [], columnGap: 0, rowGap: 0 })
+
+    expect(slots).toEqual([
+      { left: 0, top: 1, width: 2, height: 1 },
+      { left: 0, top: 0, width: 4, height: 1 }
+    ])
+  })
+
+  it('searches down the column when only the column is set', () => {
+    const slots = GridLayout.layout([item(1, 1, { column: 1 }), item(1, 1, { column: 1 })], { columns: [1, 1], rows: [], columnGap: 0, rowGap: 0 })
+
+    expect(slots.map(slot => [slot.left, slot.top])).toEqual([[1, 0], [1, 1]])
+  })
+
+  it('places children with an explicit row in it, even before the auto-placed ones', () => {
+    const slots = GridLayout.layout([item(1, 1), item(1, 1, { row: 1 }), item(1, 1, { row: 0 })], { columns: [1, 1], rows: [], columnGap: 0, rowGap: 0 })
+
+    expect(slots.map(slot => [slot.left, slot.top])).toEqual([[1, 0], [0, 1], [0, 0]])
+  })
+
+  it('throws when explicitly placed children overlap', () => {
+    const layout = (): void => {
+      GridLayout.layout([item(1, 1, { column: 0, row: 0, columnSpan: 2 }), item(1, 1, { column: 1, row: 0 })], { columns: [1, 1], rows: [], columnGap: 0, rowGap: 0 })
+    }
+
+    expect(layout).toThrow(/overlaps/)
+  })
+
+  it('sizes auto rows from the height at the columns\' width', () => {
+    const slots = GridLayout.layout([
+      { ...item(12, 1), heightAt: width => Math.ceil(12 / width) },
+      item(1, 1)
+    ], { columns: [5, 5], rows: [], columnGap: 0, rowGap: 0 })
+
+    expect(slots).toEqual([
+      { left: 0, top: 0, width: 5, height: 3 },
+      { left: 5, top: 0, width: 5, height: 3 }
+    ])
+  })
+
+  it('throws instead of hanging when a column is past the last column', () => {
+    const layout = (placement: GridLayoutItem): void => {
+      GridLayout.layout([placement], { columns: [1, 1], rows: [], columnGap: 0, rowGap: 0 })
+    }
+
+    expect(() => layout(item(1, 1, { column: 2 }))).toThrow(/past the last column/)
+    expect(() => layout(item(1, 1, { column: 1, columnSpan: 2 }))).toThrow(/past the last column/)
+    expect(() => layout(item(1, 1, { column: 5, row: 0 }))).toThrow(/past the last column/)
+  })
+
+  it('lays out grid boxes', () => {
+    const rendered = renderToString(() => grid({ columns: ['auto', 'auto'], gap: 1 },
+      text({}, 'a'),
+      text({}, 'bbb'),
+      text({ grid: { columnSpan: 2 } }, 'cccc')
+    ), {}, { width: 10, height: 4 })
+
+    expect(rendered).toBe('a bbb\n\ncccc\n')
+  })
+
+  it('wraps text at its column\'s width and grows the row to fit it', () => {
+    const rendered = renderToString(() => grid({ width: 20, columns: ['50%', '50%'] },
+      text({ wrapMode: 'word' }, 'aaa bbb ccc ddd'),
+      text({}, 'x'),
+      text({}, 'next')
+    ), {}, { width: 20, height: 3 })
+
+    expect(rendered).toBe('aaa bbb   x\nccc ddd\nnext')
+  })
+})
@@ -0,0 +1,210 @@
+import { Measurement } from 'core/view/bounds'
+
+/** Size of a grid row or column: a fixed measurement, or `auto` to fit the largest child in it */
+export type GridTrack = Measurement | 'auto'
+
+/** Placement of a child in a `grid` box */
+export interface GridItem {
+  /** Index of the first column, starting at 0. Default is the next free cell */
+  column?: number
+  /** Index of the first row, starting at 0. Default is the next free cell */
+  row?: number
+  /** Number of columns the child spans. Default is 1 */
+  columnSpan?: number
+  /** Number of rows the child spans. Default is 1 */
+  rowSpan?: number
+}
+
+export interface GridLayoutItem extends GridItem {
+  /** Size of the child if it wasn't constrained by the grid, used for `auto` tracks */
+  width: number
+  height: number
+  /** Height of the child at the width of its columns (e.g. if its text wraps), used for `auto` rows. Default is `height` */
+  heightAt?: (width: number) => number
+}
+
+/** Rectangle of cells relative to the start of the grid */
+export interface GridLayoutSlot {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export interface GridLayoutOptions {
+  /** Reified column templates. Children in columns past the end are placed in new rows */
+  columns: Array<number | 'auto'>
+  /** Reified row templates. Rows past the end are `auto` */
+  rows: Array<number | 'auto'>
+  columnGap: number
+  rowGap: number
+}
+
+export module GridLayout {
+  /**
+   * Places each item in cells, then sizes `auto` columns to fit their items,
+   * then sizes `auto` rows to fit their items at their columns' width, then returns each item's rectangle
+   */
+  export function layout (items: GridLayoutItem[], opts: GridLayoutOptions): GridLayoutSlot[] {
+    const { columns, columnGap, rowGap } = opts
+    if (columns.length === 0) {
+      throw new Error('bad layout: grid has no columns')
+    }
+    const placements = place(items, columns.length)
+    const numRows = Math.max(opts.rows.length, ...placements.map(placement => placement.row + placement.rowSpan))
+    const rows = [...opts.rows, ...Array<'auto'>(numRows - opts.rows.length).fill('auto')]
+
+    const columnSizes = sizeTracks(columns, placements.map((placement, i) => ({
+      start: placement.column,
+      span: placement.columnSpan,
+      size: items[i].width
+    })), columnGap)
+    const columnOffsets = offsets(columnSizes, columnGap)
+    const widths = placements.map(({ column, columnSpan }) =>
+      columnOffsets[column + columnSpan - 1] + columnSizes[column + columnSpan - 1] - columnOffsets[column])
+
+    const rowSizes = sizeTracks(rows, placements.map((placement, i) => ({
+      start: placement.row,
+      span: placement.rowSpan,
+      size: items[i].heightAt?.(widths[i]) ?? items[i].height
+    })), rowGap)
+    const rowOffsets = offsets(rowSizes, rowGap)
+
+    return placements.map(({ column, row, rowSpan }, i) => ({
+      left: columnOffsets[column],
+      top: rowOffsets[row],
+      width: widths[i],
+      height: rowOffsets[row + rowSpan - 1] + rowSizes[row + rowSpan - 1] - rowOffsets[row]
+    }))
+  }
+
+  /** Assigns each item a cell: explicit positions first, then items with only a row, then the rest fill free cells row by row */
+  function place (items: GridItem[], numColumns: number): Array<Required<GridItem>> {
+    const occupied: boolean[][] = []
+    const isFree = (column: number, row: number, columnSpan: number, rowSpan: number): boolean => {
+      for (let y = row; y < row + rowSpan; y++) {
+        for (let x = column; x < column + columnSpan; x++) {
+          if (occupied[y]?.[x] ?? false) {
+            return false
+          }
+        }
+      }
+      return true
+    }
+    const occupy = (placement: Required<GridItem>): void => {
+      for (let y = placement.row; y < placement.row + placement.rowSpan; y++) {
+        occupied[y] = occupied[y] ?? []
+        for (let x = placement.column; x < placement.column + placement.columnSpan; x++) {
+          occupied[y][x] = true
+        }
+      }
+    }
+
+    for (const item of items) {
+      const columnSpan = Math.min(item.columnSpan ?? 1, numColumns)
+      // Otherwise it never fits, even in a new row
+      if (item.column !== undefined && item.column + columnSpan > numColumns) {
+        throw new Error(`bad layout: grid child at column ${item.column} spanning ${columnSpan} is past the last column (${numColumns})`)
+      }
+    }
+
+    const placements: Array<Required<GridItem> | null> = items.map(() => null)
+
+    // Explicit positions first, like CSS, so auto-placed items flow around them regardless of order
+    items.forEach((item, i) => {
+      if (item.column !== undefined && item.row !== undefined) {
+        const placement = { column: item.column, row: item.row, columnSpan: Math.min(item.columnSpan ?? 1, numColumns), rowSpan: item.rowSpan ?? 1 }
+        if (!isFree(placement.column, placement.row, placement.columnSpan, placement.rowSpan)) {
+          throw new Error(`bad layout: grid child at column ${item.column} row ${item.row} overlaps another explicitly placed child`)
+        }
+        occupy(placement)
+        placements[i] = placement
+      }
+    })
+
+    // Then children with only a row, in the first free columns of it
+    items.forEach((item, i) => {
+      if (item.column === undefined && item.row !== undefined) {
+        const columnSpan = Math.min(item.columnSpan ?? 1, numColumns)
+        const rowSpan = item.rowSpan ?? 1
+        let column = 0
+        while (!isFree(column, item.row, columnSpan, rowSpan)) {
+          column++
+          if (column + columnSpan > numColumns) {
+            throw new Error(`bad layout: grid child in row ${item.row} spanning ${columnSpan} doesn't fit in the free columns`)
+          }
+        }
+        const placement = { column, row: item.row, columnSpan, rowSpan }
+        occupy(placement)
+        placements[i] = placement
+      }
+    })
+
+    // Then the rest fill free cells row by row. Children with only a column search down it
+    let cursorColumn = 0
+    let cursorRow = 0
+    return items.map((item, i) => {
+      const explicitPlacement = placements[i]
+      if (explicitPlacement !== null) {
+        return explicitPlacement
+      }
+
+      const columnSpan = Math.min(item.columnSpan ?? 1, numColumns)
+      const rowSpan = item.rowSpan ?? 1
+      if (item.column !== undefined) {
+        if (item.column < cursorColumn) {
+          cursorRow++
+        }
+        cursorColumn = item.column
+      }
+      while (cursorColumn + columnSpan > numColumns || !isFree(cursorColumn, cursorRow, columnSpan, rowSpan)) {
+        if (item.column !== undefined || cursorColumn + columnSpan >= numColumns) {
+          cursorColumn = item.column ?? 0
+          cursorRow++
+        } else {
+          cursorColumn++
+        }
+      }
+
+      const placement = { column: cursorColumn, row: cursorRow, columnSpan, rowSpan }
+      occupy(placement)
+      cursorColumn += columnSpan
+      return placement
+    })
+  }
+
+  /** Fixed tracks keep their size, `auto` tracks fit their items. Items spanning tracks which are too small grow the spanned `auto` tracks equally */
+  function sizeTracks (tracks: Array<number | 'auto'>, items: Array<{ start: number, span: number, size: number }>, gap: number): number[] {
+    const sizes = tracks.map(track => track === 'auto' ? 0 : track)
+    for (const item of items) {
+      if (item.span === 1 && tracks[item.start] === 'auto') {
+        sizes[item.start] = Math.max(sizes[item.start], item.size)
+      }
+    }
+    for (const item of items) {
+      if (item.span > 1) {
+        const spanned = [...Array(item.span).keys()].map(i => item.start + i)
+        const autoTracks = spanned.filter(track => tracks[track] === 'auto')
+        const spannedSize = spanned.reduce((sum, track) => sum + sizes[track], 0) + (gap * (item.span - 1))
+        if (spannedSize < item.size && autoTracks.length > 0) {
+          const extra = (item.size - spannedSize) / autoTracks.length
+          for (const track of autoTracks) {
+            sizes[track] += extra
+          }
+        }
+      }
+    }
+    // Round up auto tracks so they fit in whole cells
+    return sizes.map((size, track) => tracks[track] === 'auto' ? Math.ceil(size) : size)
+  }
+
+  function offsets (sizes: number[], gap: number): number[] {
+    const result: number[] = []
+    let offset = 0
+    for (const size of sizes) {
+      result.push(offset)
+      offset += size + gap
+    }
+    return result
+  }
+}
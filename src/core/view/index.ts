@@ -2,9 +2,12 @@ export * from 'core/view/attrs'
 export * from 'core/view/border-style'
 export * from 'core/view/bounds'
 export * from 'core/view/color'
+export * from 'core/view/flex'
+export * from 'core/view/grid'
 export * from 'core/view/jsx'
 export * from 'core/view/node'
 export * from 'core/view/pixi-node'
 export * from 'core/view/sub-layout'
+export * from 'core/view/text-layout'
 export * from 'core/view/view'
 export { React } from 'core/react-adapter'
@@ -1,15 +1,25 @@
-import { CommonAttrs, JSXColorAttrs } from 'core/view/attrs'
+import { CommonAttrs, JSXColorAttrs, JSXTextAttrs, TextAttrs } from 'core/view/attrs'
 import { Bounds, BoundsSpec } from 'core/view/bounds'
 import { Color } from 'core/view/color'
+import { FlexItem } from 'core/view/flex'
+import { GridItem } from 'core/view/grid'
 
-export function jsxToNormalAttrs<T extends CommonAttrs> (jsxAttrs: T & BoundsSpec): Omit<T & BoundsSpec, 'bounds' | keyof BoundsSpec> & { bounds: Bounds } {
-  const { layout, x, y, z, anchorX, anchorY, width, height, bounds: explicitBounds, ...attrs } = jsxAttrs
-  const bounds = explicitBounds ?? Bounds({ layout, x, y, z, anchorX, anchorY, width, height })
-  return { bounds, ...attrs }
+export function jsxToNormalAttrs<T extends CommonAttrs> (jsxAttrs: T & BoundsSpec): Omit<T & BoundsSpec, 'bounds' | 'flex' | 'grid' | keyof BoundsSpec> & { bounds: Bounds, flex?: FlexItem, grid?: GridItem } {
+  const {
+    layout, x, y, z, anchorX, anchorY, width, height, minWidth, maxWidth, minHeight, maxHeight,
+    grow, shrink, basis,
+    column, row, columnSpan, rowSpan,
+    bounds: explicitBounds, flex: explicitFlex, grid: explicitGrid,
+    ...attrs
+  } = jsxAttrs
+  const bounds = explicitBounds ?? Bounds({ layout, x, y, z, anchorX, anchorY, width, height, minWidth, maxWidth, minHeight, maxHeight })
+  const flex = explicitFlex ?? (grow !== undefined || shrink !== undefined || basis !== undefined ? { grow, shrink, basis } : undefined)
+  const grid = explicitGrid ?? (column !== undefined || row !== undefined || columnSpan !== undefined || rowSpan !== undefined ? { column, row, columnSpan, rowSpan } : undefined)
+  return { bounds, flex, grid, ...attrs }
 }
 
 export function jsxColorToNormalAttrs<T extends CommonAttrs & { color: Color | null }> (jsxAttrs: JSXColorAttrs<T>, requiresColor: boolean): T {
-  const { color: colorSpec, red, green, blue, lightness, chroma, hue, bounds, ...attrs } = jsxToNormalAttrs(jsxAttrs)
+  const { color: colorSpec, red, green, blue, lightness, chroma, hue, bounds, flex, grid, ...attrs } = jsxToNormalAttrs(jsxAttrs)
   let color: Color | null = null
   if (colorSpec !== undefined) {
     color = Color(colorSpec)
@@ -22,5 +32,11 @@ export function jsxColorToNormalAttrs<T extends CommonAttrs & { color: Color | n
     throw new Error(`Can't deduce color: ${JSON.stringify(jsxAttrs)}`)
   }
   // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
-  return { color, bounds, ...attrs } as T
+  return { color, bounds, flex, grid, ...attrs } as T
+}
+
+export function jsxTextToNormalAttrs (jsxAttrs: JSXTextAttrs): TextAttrs {
+  const { background, ...attrs } = jsxAttrs
+  const textAttrs = jsxColorToNormalAttrs<TextAttrs>(attrs, false)
+  return background === undefined ? textAttrs : { ...textAttrs, background: Color(background) }
 }
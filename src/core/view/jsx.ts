@@ -3,11 +3,12 @@ import {
   JSXBoxAttrs,
   JSXColorAttrs,
   JSXSourceAttrs,
-  JSXTextAttrs
+  JSXTextAttrs,
+  TextSpan
 } from 'core/view/attrs'
 import { VBorder, VBox, VColor, VView, VSource, VText } from 'core/view/view'
 import { ExplicitPartial, IntoArray } from '@raycenity/misc-ts'
-import { jsxToNormalAttrs, jsxColorToNormalAttrs } from 'core/view/jsx-helpers'
+import { jsxToNormalAttrs, jsxColorToNormalAttrs, jsxTextToNormalAttrs } from 'core/view/jsx-helpers'
 import { DelayedSubLayout, VNode } from 'core'
 
 export type VJSX =
@@ -28,12 +29,17 @@ export module VJSX {
   }
 }
 
+/** Child of a `text` or `span`: text, or a `span` to style part of it */
+export type JSXTextChild = string | VNode
+
 export interface JSXIntrinsics {
   hbox: Omit<JSXBoxAttrs, 'direction'> & { children?: VJSX[] }
   vbox: Omit<JSXBoxAttrs, 'direction'> & { children?: VJSX[] }
   zbox: Omit<JSXBoxAttrs, 'direction'> & { children?: VJSX[] }
+  grid: Omit<JSXBoxAttrs, 'direction'> & { children?: VJSX[] }
   box: JSXBoxAttrs & { children?: VJSX[] }
-  text: JSXTextAttrs & { children?: string | string[] }
+  text: JSXTextAttrs & { children?: JSXTextChild | JSXTextChild[] }
+  span: JSXTextAttrs & { children?: JSXTextChild | JSXTextChild[] }
   color: JSXColorAttrs & { children?: [] }
   border: JSXBorderAttrs & { children?: [] }
   source: JSXSourceAttrs & { children?: [] }
@@ -52,10 +58,12 @@ export const intrinsics: {
     intrinsics.box({ ...props, direction: 'vertical' }, ...children),
   zbox: (props: Omit<JSXBoxAttrs, 'direction'>, ...children: VJSX[]): VView =>
     intrinsics.box({ ...props, direction: 'overlap' }, ...children),
+  grid: (props: Omit<JSXBoxAttrs, 'direction'>, ...children: VJSX[]): VView =>
+    intrinsics.box({ ...props, direction: 'grid' }, ...children),
   box: (props: JSXBoxAttrs, ...children: VJSX[]): VView => {
-    const { visible, key, bounds, direction, gap, storeBoundsIn: store, keepBounds: keep_, customSublayout: custom, ...attrs } = jsxToNormalAttrs(props)
+    const { visible, key, bounds, direction, gap, justify, align, wrap, columns, rows, storeBoundsIn: store, keepBounds: keep_, customSublayout: custom, ...attrs } = jsxToNormalAttrs(props)
     const keep = typeof keep_ === 'string' ? [keep_] : keep_
-    const sublayout: ExplicitPartial<DelayedSubLayout> = { direction, gap, store, keep, custom }
+    const sublayout: ExplicitPartial<DelayedSubLayout> = { direction, gap, justify, align, wrap, columns, rows, store, keep, custom }
 
     const children_ = VJSX.collapse(children)
     if (children_.length > 1 && direction === undefined) {
@@ -64,8 +72,31 @@ export const intrinsics: {
 
     return VBox(children_, { bounds, visible, key, sublayout, ...attrs })
   },
-  text: (props: JSXTextAttrs, ...text: string[]): VView => VText(text.join(''), jsxColorToNormalAttrs(props, false)),
+  text,
+  // Outside of a text, a span is just a text
+  span: text,
   color: (props: JSXColorAttrs): VView => VColor(jsxColorToNormalAttrs(props, true)),
   border: (props: JSXBorderAttrs): VView => VBorder(jsxColorToNormalAttrs(props, false)),
   source: (props: JSXSourceAttrs): VView => VSource(jsxToNormalAttrs(props))
 }
+
+function text (props: JSXTextAttrs, ...children: JSXTextChild[]): VView {
+  const attrs = jsxTextToNormalAttrs(props)
+  if (children.every(child => typeof child === 'string')) {
+    return VText(children.join(''), attrs)
+  } else {
+    return VText(children.flatMap(textSpans), attrs)
+  }
+}
+
+/** Spans of a `text` child, which inherit the style of the `span` they're in */
+function textSpans (child: JSXTextChild): TextSpan[] {
+  if (typeof child === 'string') {
+    return [{ text: child }]
+  } else if (child.type === 'text') {
+    const style = VText.style(child)
+    return (child.spans ?? [{ text: child.text }]).map(span => ({ ...style, ...span }))
+  } else {
+    throw new Error(`text children must be strings or spans, got ${child.type}`)
+  }
+}
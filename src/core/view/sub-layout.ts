@@ -1,4 +1,7 @@
-import { BoundingBox, LayoutDirection, Measurement, ParentBounds, Rectangle } from 'core/view/bounds'
+import { BoundingBox, LayoutDirection, Measurement, ParentBounds, Rectangle, Size } from 'core/view/bounds'
+import { FlexAlign, FlexJustify } from 'core/view/flex'
+import { GridTrack } from 'core/view/grid'
+import type { VView } from 'core/view/view'
 import { assert } from '@raycenity/misc-ts'
 
 export interface CustomSubLayout {
@@ -12,6 +15,16 @@ export type CustomDelayedSubLayout =
 export interface SubLayout {
   direction?: LayoutDirection
   gap?: Measurement
+  /** Distribution of leftover space along `direction`. Default is 'start' */
+  justify?: FlexJustify
+  /** Position across `direction`. Default is 'start' */
+  align?: FlexAlign
+  /** Whether children which don't fit along `direction` wrap into another line */
+  wrap?: boolean
+  /** For `grid` direction, the size of each column. Default is one `auto` column */
+  columns?: GridTrack[]
+  /** For `grid` direction, the size of each row. Rows past the end are `auto` */
+  rows?: GridTrack[]
 }
 
 export interface DelayedSubLayout extends SubLayout {
@@ -23,6 +36,8 @@ export interface DelayedSubLayout extends SubLayout {
 export interface ParentSubLayout extends SubLayout {
   stored?: { [name: string]: BoundingBox }
   custom?: CustomSubLayout
+  /** Size the parent's flex or grid layout assigned to the child, overrides the child's own bounds */
+  itemSize?: Partial<Size>
 }
 
 export module DelayedSubLayout {
@@ -41,6 +56,16 @@ export module DelayedSubLayout {
     return stored
   }
 
+  /** Whether children are laid out by `FlexLayout` instead of just stacked */
+  export function isFlex (sublayout: SubLayout, children: VView[]): boolean {
+    return (sublayout.direction === 'horizontal' || sublayout.direction === 'vertical') && (
+      sublayout.justify !== undefined ||
+      sublayout.align !== undefined ||
+      sublayout.wrap !== undefined ||
+      children.some(child => child.flex !== undefined)
+    )
+  }
+
   export function resolve (sublayout: DelayedSubLayout, bounds: BoundingBox, parentBounds: ParentBounds, siblingBounds: Rectangle | null): ParentSubLayout {
     const { store, keep, custom, ...attrs } = sublayout
 
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { TextFormat, TextLayout } from 'core'
+
+/** The laid-out lines as strings, with each line's cells placed at their columns */
+function lines (text: string, width: number | undefined, height: number | undefined, format: TextFormat): string[] {
+  return TextLayout.layout([{ text }], width, height, format).map(line => {
+    let result = ''
+    let column = 0
+    for (const cell of line.cells) {
+      result += ' '.repeat(cell.x - column) + cell.text
+      column = cell.x + cell.width
+    }
+    return result
+  })
+}
+
+describe('TextLayout', () => {
+  it('splits grapheme clusters', () => {
+    expect(TextLayout.graphemes('e\u0301👩‍💻🇯🇵a')).toEqual(['e\u0301', '👩‍💻', '🇯🇵', 'a'])
+  })
+
+  it('measures East Asian wide characters and emoji as 2 columns, and zero-width characters as 0', () => {
+    expect(TextLayout.width('abc')).toBe(3)
+    expect(TextLayout.width('日本語')).toBe(6)
+    expect(TextLayout.width('👩‍💻!')).toBe(3)
+    expect(TextLayout.width('e\u0301\u200B')).toBe(1)
+  })
+
+  it('wraps between words, hyphenating words longer than a line', () => {
+    expect(lines('the quick brown fox', 10, undefined, { wrapMode: 'word' })).toEqual(['the quick', 'brown fox'])
+    expect(lines('abcdefghij', 4, undefined, { wrapMode: 'word' })).toEqual(['abc-', 'def-', 'ghij'])
+  })
+
+  it('wraps CJK between any characters, without splitting wide characters', () => {
+    expect(lines('日本語のテキスト', 5, undefined, { wrapMode: 'word' })).toEqual(['日本', '語の', 'テキ', 'スト'])
+    expect(lines('ab日本', 3, undefined, { wrapMode: 'char' })).toEqual(['ab', '日', '本'])
+  })
+
+  it('aligns and truncates lines', () => {
+    expect(lines('ab\ncde', 5, undefined, { align: 'right' })).toEqual(['   ab', '  cde'])
+    expect(lines('abcdefgh', 5, undefined, { wrapMode: 'clip', truncate: 'end' })).toEqual(['abcd…'])
+    expect(lines('abcdefgh', 5, undefined, { wrapMode: 'clip', truncate: 'start' })).toEqual(['…efgh'])
+  })
+
+  it('sizes text by the columns and rows it takes up', () => {
+    expect(TextLayout.size([{ text: 'a' }, { text: '日\nbc' }], undefined, undefined, {})).toEqual({ width: 3, height: 2 })
+    expect(TextLayout.size([{ text: 'one two three' }], 7, 2, { wrapMode: 'word' })).toEqual({ width: 7, height: 2 })
+  })
+})
@@ -0,0 +1,466 @@
+import { Size } from 'core/view/bounds'
+
+/** How lines longer than the text's width are broken: between words, between any characters, or not at all (cut off) */
+export type TextWrapMode = 'word' | 'char' | 'clip'
+
+/** Horizontal position of each line. `justify` spreads wrapped lines to the full width by widening spaces, except the last line of each paragraph */
+export type TextAlign = 'left' | 'center' | 'right' | 'justify'
+
+/** Vertical position of the lines when there are fewer than the text's height */
+export type TextVerticalAlign = 'top' | 'middle' | 'bottom'
+
+/** Where cut-off text is replaced by an ellipsis */
+export type TextTruncate = 'start' | 'middle' | 'end'
+
+/** How a text is broken into lines and positioned in its bounds */
+export interface TextFormat {
+  /** Default is to not break and warn if a line is longer than the width */
+  readonly wrapMode?: TextWrapMode
+  /** Default is 'left' */
+  readonly align?: TextAlign
+  /** Default is 'top' */
+  readonly verticalAlign?: TextVerticalAlign
+  /**
+   * Where to put an ellipsis when text is cut off: `clip` lines longer than the width, and lines past the height.
+   * Default is to cut off without an ellipsis
+   */
+  readonly truncate?: TextTruncate
+}
+
+export interface TextLayoutCell {
+  /** A grapheme cluster (user-perceived character, e.g. an emoji sequence or a letter with accents) and the zero-width characters after it */
+  text: string
+  /** Index of the span the character is from */
+  span: number
+  /** Column from the text's left */
+  x: number
+  /** Number of columns the character takes up: 2 for East Asian wide characters and emoji, otherwise 1 */
+  width: number
+}
+
+export interface TextLayoutLine {
+  /** Row from the text's top */
+  y: number
+  cells: TextLayoutCell[]
+}
+
+export const ELLIPSIS = '…'
+
+/** Word wrapping breaks a word across lines with this, if the word is longer than a line */
+const HYPHEN = '-'
+
+/** Lines don't break before these, e.g. closing brackets and CJK small kana */
+const NO_BREAK_BEFORE = new Set([...'!),.:;?]}\u00BB\u3001\u3002\u3009\u300B\u300D\u300F\u3011\u3015\u3017\u3019\u301B\u30FC\u3005\u3041\u3043\u3045\u3047\u3049\u3063\u3083\u3085\u3087\u308E\u30A1\u30A3\u30A5\u30A7\u30A9\u30C3\u30E3\u30E5\u30E7\u30EE\u30F5\u30F6\uFF01\uFF09\uFF0C\uFF0E\uFF1A\uFF1B\uFF1F\uFF3D\uFF5D\uFF63'])
+/** Lines don't break after these, e.g. opening brackets */
+const NO_BREAK_AFTER = new Set([...'([{\u00AB\u3008\u300A\u300C\u300E\u3010\u3014\u3016\u3018\u301A\uFF08\uFF3B\uFF5B\uFF62'])
+/** Lines break after these, if a letter follows */
+const HYPHENS = new Set([...'-\u2010\u2013\u2014'])
+/** Non-breaking space, narrow non-breaking space, word joiner, zero-width non-breaking space */
+const GLUE = new Set([...'\u00A0\u202F\u2060\uFEFF'])
+const ZERO_WIDTH_SPACE = '\u200B'
+
+/** [first, last] code points of East Asian Wide and Fullwidth characters */
+const WIDE_RANGES: ReadonlyArray<readonly [number, number]> = [
+  [0x1100, 0x115F], [0x2E80, 0x303E], [0x3041, 0x33FF], [0x3400, 0x4DBF], [0x4E00, 0x9FFF],
+  [0xA000, 0xA4CF], [0xA960, 0xA97F], [0xAC00, 0xD7A3], [0xF900, 0xFAFF], [0xFE10, 0xFE19],
+  [0xFE30, 0xFE6F], [0xFF00, 0xFF60], [0xFFE0, 0xFFE6], [0x1B000, 0x1B2FF], [0x1F200, 0x1F2FF],
+  [0x20000, 0x2FFFD], [0x30000, 0x3FFFD]
+]
+
+/** `Intl.Segmenter`, which isn't in every TypeScript lib we support yet, so this declares only what we use */
+interface GraphemeSegmenter {
+  segment: (text: string) => Iterable<{ segment: string }>
+}
+
+/** `undefined` on older platforms */
+const Segmenter = (Intl as { Segmenter?: new (locales: undefined, options: { granularity: 'grapheme' }) => GraphemeSegmenter }).Segmenter
+/** `null` if the platform doesn't have `Intl.Segmenter` */
+const graphemeSegmenter: GraphemeSegmenter | null = Segmenter === undefined ? null : new Segmenter(undefined, { granularity: 'grapheme' })
+
+type Cell = Omit<TextLayoutCell, 'x'>
+
+interface Line {
+  cells: Cell[]
+  /** Whether the line ends at a newline or the end of the text, as opposed to being wrapped */
+  isParagraphEnd: boolean
+}
+
+export module TextLayout {
+  /**
+   * Breaks the spans' text into lines which fit in `width` and `height` according to `format`, and positions each character.
+   * The renderers all use this, so text wraps, aligns and truncates the same in the terminal and the browser.
+   */
+  export function layout (spans: ReadonlyArray<{ text: string }>, width: number | undefined, height: number | undefined, format: TextFormat): TextLayoutLine[] {
+    return layoutImpl(spans, width, height, format, true)
+  }
+
+  /**
+   * Columns and rows the laid-out text takes up, so it's measured with the same widths and line breaks it's rendered with.
+   * Doesn't warn about overflowing text, because it's measured more often than it's rendered
+   */
+  export function size (spans: ReadonlyArray<{ text: string }>, width: number | undefined, height: number | undefined, format: TextFormat): Size {
+    const lines = layoutImpl(spans, width, height, format, false)
+    return {
+      width: Math.max(0, ...lines.map(line => line.cells.reduce((right, cell) => Math.max(right, cell.x + cell.width), 0))),
+      height: lines.length === 0 ? 0 : lines[lines.length - 1].y + 1
+    }
+  }
+
+  /** Splits into grapheme clusters: user-perceived characters like `é` (e + combining accent) or `👩‍💻` (a ZWJ emoji sequence) */
+  export function graphemes (text: string): string[] {
+    if (graphemeSegmenter !== null) {
+      return Array.from(graphemeSegmenter.segment(text), ({ segment }) => segment)
+    }
+
+    // Approximation of the Unicode rules where Intl.Segmenter isn't available
+    const result: string[] = []
+    for (const char of text) {
+      const prev = result[result.length - 1]
+      if (prev !== undefined && (
+        extendsGrapheme(char) ||
+        prev.endsWith('\u200D') ||
+        (prev === '\r' && char === '\n') ||
+        (/^\p{RI}$/u.test(prev) && /^\p{RI}$/u.test(char))
+      )) {
+        result[result.length - 1] += char
+      } else {
+        result.push(char)
+      }
+    }
+    return result
+  }
+
+  /** Combining marks, joiners, variation selectors, emoji modifiers and tags, and hangul vowels and final consonants */
+  function extendsGrapheme (char: string): boolean {
+    const codePoint = char.codePointAt(0) ?? 0
+    return /^\p{M}$/u.test(char) ||
+      codePoint === 0x200D ||
+      (codePoint >= 0xFE00 && codePoint <= 0xFE0F) ||
+      (codePoint >= 0x1F3FB && codePoint <= 0x1F3FF) ||
+      (codePoint >= 0xE0020 && codePoint <= 0xE007F) ||
+      (codePoint >= 0x1160 && codePoint <= 0x11FF)
+  }
+
+  /**
+   * Number of columns the text takes up in a terminal: East Asian wide characters and emoji take 2,
+   * zero-width characters (e.g. combining marks and joiners) take 0, and others take 1
+   */
+  export function width (text: string): number {
+    return graphemes(text).reduce((sum, grapheme) => sum + graphemeWidth(grapheme), 0)
+  }
+
+  function graphemeWidth (grapheme: string): number {
+    const codePoint = grapheme.codePointAt(0) ?? 0
+    if (/^[\p{Mn}\p{Me}\p{Cf}\p{Cc}]+$/u.test(grapheme) && grapheme !== '\t') {
+      return 0
+    } else if (
+      grapheme.includes('\uFE0F') ||
+      /^[\p{Emoji_Presentation}\p{RI}]/u.test(grapheme) ||
+      WIDE_RANGES.some(([first, last]) => codePoint >= first && codePoint <= last)
+    ) {
+      return 2
+    } else {
+      return 1
+    }
+  }
+
+  function layoutImpl (spans: ReadonlyArray<{ text: string }>, width: number | undefined, height: number | undefined, format: TextFormat, warnOverflow: boolean): TextLayoutLine[] {
+    const { wrapMode, align, verticalAlign, truncate } = format
+    const lines = paragraphs(spans).flatMap(paragraph => wrap(paragraph, width, wrapMode, truncate, warnOverflow))
+    return position(truncateLines(lines, width, height, truncate), width, height, align ?? 'left', verticalAlign ?? 'top')
+  }
+
+  /** Splits at newlines into cells of grapheme clusters. Zero-width characters are added to the previous character */
+  function paragraphs (spans: ReadonlyArray<{ text: string }>): Cell[][] {
+    const result: Cell[][] = [[]]
+    let zeroWidthPrefix = ''
+    spans.forEach((span, spanIndex) => {
+      for (const char of graphemes(span.text)) {
+        const paragraph = result[result.length - 1]
+        const charWidth = graphemeWidth(char)
+        if (char === '\n' || char === '\r\n') {
+          result.push([])
+          zeroWidthPrefix = ''
+        } else if (charWidth === 0 && paragraph.length > 0) {
+          paragraph[paragraph.length - 1].text += char
+        } else if (charWidth === 0) {
+          zeroWidthPrefix += char
+        } else {
+          paragraph.push({ text: zeroWidthPrefix + char, span: spanIndex, width: charWidth })
+          zeroWidthPrefix = ''
+        }
+      }
+    })
+    return result
+  }
+
+  function wrap (paragraph: Cell[], width: number | undefined, wrapMode: TextWrapMode | undefined, truncate: TextTruncate | undefined, warnOverflow: boolean): Line[] {
+    if (width === undefined || lineWidth(paragraph) <= width) {
+      return [{ cells: paragraph, isParagraphEnd: true }]
+    }
+    switch (wrapMode) {
+      case undefined:
+        if (warnOverflow) {
+          console.warn('text extended past width but wrap is undefined')
+        }
+        return [{ cells: paragraph, isParagraphEnd: true }]
+      case 'clip':
+        return [{ cells: truncateLine(paragraph, width, truncate ?? null), isParagraphEnd: true }]
+      case 'char':
+        return breakLines(paragraph.map(cell => [cell]), width)
+      case 'word':
+        return breakLines(segments(paragraph), width)
+    }
+  }
+
+  /** Splits where lines can break (a simplified version of the Unicode line breaking algorithm). Each space is its own segment */
+  function segments (paragraph: Cell[]): Cell[][] {
+    const result: Cell[][] = []
+    paragraph.forEach((cell, index) => {
+      const prev = paragraph[index - 1]
+      if (prev === undefined || isSpace([prev]) || isSpace([cell]) || canBreakBetween(prev, cell)) {
+        result.push([cell])
+      } else {
+        result[result.length - 1].push(cell)
+      }
+    })
+    return result
+  }
+
+  /** Whether a line can break between two adjacent non-space characters */
+  function canBreakBetween (prev: Cell, next: Cell): boolean {
+    const prevChar = [...prev.text].pop() ?? ''
+    const nextChar = [...next.text][0] ?? ''
+    if (NO_BREAK_BEFORE.has(nextChar) || NO_BREAK_AFTER.has(prevChar) || GLUE.has(prevChar) || GLUE.has(nextChar)) {
+      return false
+    } else if (prevChar === ZERO_WIDTH_SPACE) {
+      return true
+    } else if (HYPHENS.has(prevChar)) {
+      return /^\p{L}/u.test(nextChar)
+    } else {
+      // Ideographs, kana, hangul and emoji can break on either side, like separate words
+      return prev.width === 2 || next.width === 2
+    }
+  }
+
+  /**
+   * Puts tokens on lines until they don't fit, then starts a new line. A space at a break is removed.
+   * A word longer than a line is broken with a hyphen
+   */
+  function breakLines (tokens: Cell[][], width: number): Line[] {
+    const lines: Cell[][] = [[]]
+    let currentWidth = 0
+    const newLine = (): void => {
+      lines.push([])
+      currentWidth = 0
+    }
+    const add = (cells: Cell[]): void => {
+      lines[lines.length - 1].push(...cells)
+      currentWidth += lineWidth(cells)
+    }
+
+    for (const token of tokens) {
+      const tokenWidth = lineWidth(token)
+      if (currentWidth + tokenWidth <= width) {
+        add(token)
+      } else if (isSpace(token)) {
+        newLine()
+      } else if (tokenWidth <= width) {
+        newLine()
+        add(token)
+      } else {
+        // Too long for any line
+        let rest = token
+        while (lineWidth(rest) > width - currentWidth) {
+          const room = width - currentWidth
+          const isWord = rest.length > 1 && isWordChar(rest[0])
+          const hyphenate = isWord && room >= 2
+          // Words don't break without a hyphen unless they're at the start of the line
+          const part = isWord && !hyphenate && currentWidth > 0 ? [] : takeStart(rest, hyphenate ? room - 1 : room)
+          if (part.length === 0 && currentWidth === 0) {
+            // The character is wider than the line, so it gets its own line
+            part.push(rest[0])
+          }
+          if (part.length > 0) {
+            add(part)
+            rest = rest.slice(part.length)
+            if (hyphenate) {
+              add([{ text: HYPHEN, span: part[part.length - 1].span, width: 1 }])
+            }
+          }
+          newLine()
+        }
+        add(rest)
+      }
+    }
+    return lines.map((cells, i) => ({ cells, isParagraphEnd: i === lines.length - 1 }))
+  }
+
+  /** Lines past `height` are removed, and if `truncate`, an ellipsis is added where they were */
+  function truncateLines (lines: Line[], width: number | undefined, height: number | undefined, truncate: TextTruncate | undefined): Line[] {
+    if (height === undefined || lines.length <= height) {
+      return lines
+    }
+    if (truncate === undefined || height <= 0) {
+      return lines.slice(0, Math.max(0, height))
+    }
+
+    const lineWithEllipsis = (line: Line, side: 'start' | 'end'): Line => {
+      const cells = trimEnd(line.cells)
+      const fallbackSpan = line.cells[side === 'end' ? line.cells.length - 1 : 0]?.span ?? 0
+      return { cells: withEllipsis(cells, width ?? Infinity, side, fallbackSpan), isParagraphEnd: true }
+    }
+    switch (truncate) {
+      case 'end':
+        return [...lines.slice(0, height - 1), lineWithEllipsis(lines[height - 1], 'end')]
+      case 'start':
+        return [lineWithEllipsis(lines[lines.length - height], 'start'), ...lines.slice(lines.length - height + 1)]
+      case 'middle': {
+        const top = Math.ceil(height / 2)
+        return [...lines.slice(0, top - 1), lineWithEllipsis(lines[top - 1], 'end'), ...lines.slice(lines.length - (height - top))]
+      }
+    }
+  }
+
+  /** Adds an ellipsis at the side of the line, removing characters from it if necessary to fit in `width` */
+  function withEllipsis (cells: Cell[], width: number, side: 'start' | 'end', fallbackSpan: number): Cell[] {
+    if (width < 1) {
+      return []
+    }
+    const ellipsis = { text: ELLIPSIS, width: 1, span: fallbackSpan }
+    return side === 'end'
+      ? [...takeStart(cells, width - 1), ellipsis]
+      : [ellipsis, ...takeEnd(cells, width - 1)]
+  }
+
+  /** Cuts the line to `width`, replacing the removed characters with an ellipsis at `truncate` if not `null` */
+  function truncateLine (cells: Cell[], width: number, truncate: TextTruncate | null): Cell[] {
+    if (lineWidth(cells) <= width) {
+      return cells
+    } else if (truncate === null) {
+      return takeStart(cells, width)
+    } else if (width < 1) {
+      return []
+    }
+
+    switch (truncate) {
+      case 'end': {
+        const start = takeStart(cells, width - 1)
+        return [...start, { text: ELLIPSIS, width: 1, span: cells[start.length].span }]
+      }
+      case 'start': {
+        const end = takeEnd(cells, width - 1)
+        return [{ text: ELLIPSIS, width: 1, span: cells[cells.length - end.length - 1].span }, ...end]
+      }
+      case 'middle': {
+        const start = takeStart(cells, Math.ceil((width - 1) / 2))
+        const end = takeEnd(cells, width - 1 - lineWidth(start))
+        return [...start, { text: ELLIPSIS, width: 1, span: cells[start.length].span }, ...end]
+      }
+    }
+  }
+
+  function position (lines: Line[], width: number | undefined, height: number | undefined, align: TextAlign, verticalAlign: TextVerticalAlign): TextLayoutLine[] {
+    const areaWidth = width ?? Math.max(0, ...lines.map(line => lineWidth(line.cells)))
+    const freeHeight = height === undefined ? 0 : Math.max(0, height - lines.length)
+    const top = verticalAlign === 'bottom' ? freeHeight : verticalAlign === 'middle' ? Math.floor(freeHeight / 2) : 0
+
+    return lines.map((line, i) => {
+      // Trailing spaces of wrapped lines would misalign them
+      let cells = line.isParagraphEnd ? line.cells : trimEnd(line.cells)
+      const free = Math.max(0, areaWidth - lineWidth(cells))
+      let x = 0
+      switch (align) {
+        case 'left':
+          break
+        case 'center':
+          x = Math.floor(free / 2)
+          break
+        case 'right':
+          x = free
+          break
+        case 'justify':
+          if (!line.isParagraphEnd) {
+            cells = justify(cells, free)
+          }
+          break
+      }
+
+      return {
+        y: top + i,
+        cells: cells.map(cell => {
+          const positioned = { ...cell, x }
+          x += cell.width
+          return positioned
+        })
+      }
+    })
+  }
+
+  /** Adds `free` spaces after the spaces between words, as evenly as possible */
+  function justify (cells: Cell[], free: number): Cell[] {
+    const firstNonSpace = cells.findIndex(cell => cell.text !== ' ')
+    const spaceIndices = cells
+      .map((cell, index) => cell.text === ' ' && index > firstNonSpace ? index : -1)
+      .filter(index => index !== -1)
+    if (spaceIndices.length === 0 || free === 0) {
+      return cells
+    }
+
+    const result: Cell[] = []
+    let spaceNumber = 0
+    cells.forEach((cell, index) => {
+      result.push(cell)
+      if (spaceIndices.includes(index)) {
+        const extra = Math.floor(free / spaceIndices.length) + (spaceNumber < free % spaceIndices.length ? 1 : 0)
+        for (let i = 0; i < extra; i++) {
+          result.push({ ...cell })
+        }
+        spaceNumber++
+      }
+    })
+    return result
+  }
+
+  /** Longest prefix which fits in `width` */
+  function takeStart (cells: Cell[], width: number): Cell[] {
+    let total = 0
+    let end = 0
+    while (end < cells.length && total + cells[end].width <= width) {
+      total += cells[end].width
+      end++
+    }
+    return cells.slice(0, end)
+  }
+
+  /** Longest suffix which fits in `width` */
+  function takeEnd (cells: Cell[], width: number): Cell[] {
+    let total = 0
+    let start = cells.length
+    while (start > 0 && total + cells[start - 1].width <= width) {
+      total += cells[start - 1].width
+      start--
+    }
+    return cells.slice(start)
+  }
+
+  function trimEnd (cells: Cell[]): Cell[] {
+    let end = cells.length
+    while (end > 0 && cells[end - 1].text === ' ') {
+      end--
+    }
+    return cells.slice(0, end)
+  }
+
+  function lineWidth (cells: Cell[]): number {
+    return cells.reduce((sum, cell) => sum + cell.width, 0)
+  }
+
+  function isWordChar (cell: Cell): boolean {
+    return /^[\p{L}\p{N}]/u.test(cell.text)
+  }
+
+  function isSpace (token: Cell[]): boolean {
+    return token.length === 1 && token[0].text === ' '
+  }
+}
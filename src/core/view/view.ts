@@ -1,4 +1,4 @@
-import { BorderAttrs, BoxAttrs, ColorAttrs, PixiAttrs, SourceAttrs, TextAttrs } from 'core/view/attrs'
+import { BorderAttrs, BoxAttrs, ColorAttrs, PixiAttrs, SourceAttrs, TextAttrs, TextSpan, TextStyle } from 'core/view/attrs'
 import type { DisplayObject } from 'pixi.js'
 import { VNode } from 'core'
 
@@ -17,6 +17,8 @@ export interface VBox extends BoxAttrs, VViewCommon {
 export interface VText extends TextAttrs, VViewCommon {
   readonly type: 'text'
   readonly text: string
+  /** If the text has `span`s, its parts in order, whose text joins into `text`. Each part's style is over the view's */
+  readonly spans?: readonly TextSpan[]
 }
 
 export interface VColor extends ColorAttrs, VViewCommon {
@@ -37,8 +39,41 @@ export interface VPixi<Pixi extends DisplayObject> extends PixiAttrs<Pixi>, VVie
   pixi: Pixi | 'terminal' | null
 }
 
-export function VText (text: string, attrs: TextAttrs): VText {
-  return { id: VNode.nextId(), type: 'text', text, ...attrs }
+export function VText (text: string | readonly TextSpan[], attrs: TextAttrs): VText {
+  if (typeof text === 'string') {
+    return { id: VNode.nextId(), type: 'text', text, ...attrs }
+  } else {
+    return { id: VNode.nextId(), type: 'text', text: text.map(span => span.text).join(''), spans: text, ...attrs }
+  }
+}
+
+const TEXT_STYLE_KEYS: ReadonlyArray<keyof TextStyle> = ['bold', 'dim', 'italic', 'underline', 'strikethrough', 'inverse', 'background']
+
+export module VText {
+  /** The view's color and style which are set, e.g. to inherit in the text which contains it (if it's a `span`) */
+  export function style (view: VText): Omit<TextSpan, 'text'> {
+    const style: { -readonly [Key in keyof TextSpan]?: TextSpan[Key] } = {}
+    for (const key of TEXT_STYLE_KEYS) {
+      copyStyle(style, view, key)
+    }
+    if (view.color !== null) {
+      style.color = view.color
+    }
+    return style
+  }
+
+  // Generic so the key has the same type on both sides, which a union of keys wouldn't
+  function copyStyle <Key extends keyof TextStyle> (style: { -readonly [K in keyof TextStyle]?: TextStyle[K] }, view: TextStyle, key: Key): void {
+    if (view[key] !== undefined) {
+      style[key] = view[key]
+    }
+  }
+
+  /** Each part of the text with its full style, which is the view's style with the part's on top */
+  export function spans (view: VText): TextSpan[] {
+    const viewStyle = style(view)
+    return (view.spans ?? [{ text: view.text }]).map(span => ({ ...viewStyle, ...span }))
+  }
 }
 
 export function VBox (children: VNode[], attrs: BoxAttrs): VBox {
@@ -1,2 +1,4 @@
 export * from 'core'
+export * from 'components'
+export * from 'widgets'
 export * from 'render-cjs'
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest'
+import { intrinsics, VNode } from 'core'
+import { PromptProps } from 'prompt/PromptDevolveUICore'
+import { PromptAbortedError, PromptCancelledError, PromptReplacedError, PromptSpec, PromptTimeoutError } from 'prompt/prompt'
+import { FakeClock, HeadlessPromptDevolveUI } from 'testing'
+
+interface Props extends PromptProps<'a' | 'b'> {
+  prompts: { a?: PromptSpec<string> & { message: string }, b?: PromptSpec<string> & { message: string } }
+}
+
+function PromptList ({ prompts }: Props): VNode {
+  return intrinsics.vbox({}, ...Object.entries(prompts).map(([key, spec]) => intrinsics.text({ key }, spec?.message ?? '')))
+}
+
+function mkUI (clock: FakeClock = new FakeClock()): HeadlessPromptDevolveUI<Props> {
+  const ui = new HeadlessPromptDevolveUI<Props>(PromptList, {}, { width: 20, height: 4, clock })
+  ui.show()
+  return ui
+}
+
+describe('PromptDevolveUICore', () => {
+  it('shows the prompt until it resolves', async () => {
+    const ui = mkUI()
+    const answer = ui.prompt('a', { message: 'Name?' })
+    ui.renderer.tick()
+    expect(ui.renderer.lines[0].trimEnd()).toBe('Name?')
+
+    ui.getProps().prompts.a!.resolve('Ann')
+    await expect(answer).resolves.toBe('Ann')
+    ui.renderer.tick()
+    expect(ui.renderer.lines[0].trimEnd()).toBe('')
+    ui.close()
+  })
+
+  it('rejects after the timeout and clears its timer when settled', async () => {
+    const clock = new FakeClock()
+    const ui = mkUI(clock)
+    const timedOut = ui.prompt('a', { message: 'Slow?' }, { timeoutMs: 1000 })
+    const answered = ui.prompt('b', { message: 'Fast?' }, { timeoutMs: 1000 })
+    expect(clock.pendingTimers).toBe(2)
+
+    ui.getProps().prompts.b!.resolve('done')
+    await expect(answered).resolves.toBe('done')
+    expect(clock.pendingTimers).toBe(1)
+
+    clock.advance(999)
+    expect(ui.getProps().prompts.a).toBeDefined()
+    clock.advance(1)
+    await expect(timedOut).rejects.toBeInstanceOf(PromptTimeoutError)
+    expect(clock.pendingTimers).toBe(0)
+    ui.close()
+  })
+
+  it('rejects when the signal aborts, or immediately if it already aborted', async () => {
+    const ui = mkUI()
+    const controller = new AbortController()
+    const aborted = ui.prompt('a', { message: 'Abort?' }, { signal: controller.signal })
+    controller.abort()
+    await expect(aborted).rejects.toBeInstanceOf(PromptAbortedError)
+    expect(ui.getProps().prompts.a).toBeUndefined()
+
+    await expect(ui.prompt('b', { message: 'Too late' }, { signal: controller.signal })).rejects.toBeInstanceOf(PromptAbortedError)
+    ui.close()
+  })
+
+  it('polls earlyCancelPing on the clock and stops when settled', async () => {
+    const clock = new FakeClock()
+    const ui = mkUI(clock)
+    let shouldCancel = false
+    const cancelled = ui.prompt('a', { message: 'Ping?' }, () => shouldCancel)
+
+    clock.advance(500)
+    expect(ui.getProps().prompts.a).toBeDefined()
+    shouldCancel = true
+    clock.advance(100)
+    await expect(cancelled).rejects.toBeInstanceOf(PromptTimeoutError)
+    expect(clock.pendingTimers).toBe(0)
+    ui.close()
+  })
+
+  it('replaces pending prompts at the key by default', async () => {
+    const ui = mkUI()
+    const first = ui.prompt('a', { message: 'First?' })
+    const second = ui.prompt('a', { message: 'Second?' })
+
+    await expect(first).rejects.toBeInstanceOf(PromptReplacedError)
+    expect(ui.getProps().pendingPrompts.a).toEqual([ui.getProps().prompts.a])
+    expect(ui.getProps().prompts.a?.message).toBe('Second?')
+    ui.getProps().prompts.a!.resolve('2')
+    await expect(second).resolves.toBe('2')
+    ui.close()
+  })
+
+  it('shows queued prompts after the pending ones settle', async () => {
+    const ui = mkUI()
+    ui.promptPolicy = 'queue'
+    const first = ui.prompt('a', { message: 'First?' })
+    const second = ui.prompt('a', { message: 'Second?' })
+    ui.renderer.tick()
+    expect(ui.renderer.lines[0].trimEnd()).toBe('First?')
+
+    ui.getProps().prompts.a!.resolve('1')
+    await expect(first).resolves.toBe('1')
+    ui.renderer.tick()
+    expect(ui.renderer.lines[0].trimEnd()).toBe('Second?')
+    ui.getProps().prompts.a!.resolve('2')
+    await expect(second).resolves.toBe('2')
+    ui.close()
+  })
+
+  it('shows stacked prompts over the pending ones, which show again after', async () => {
+    const ui = mkUI()
+    const first = ui.prompt('a', { message: 'First?' })
+    const second = ui.prompt('a', { message: 'Second?' }, { policy: 'stack' })
+    expect(ui.getProps().prompts.a?.message).toBe('Second?')
+
+    ui.getProps().prompts.a!.resolve('2')
+    await expect(second).resolves.toBe('2')
+    expect(ui.getProps().prompts.a?.message).toBe('First?')
+    ui.getProps().prompts.a!.resolve('1')
+    await expect(first).resolves.toBe('1')
+    ui.close()
+  })
+
+  it('adds settled prompts to the history until cleared', async () => {
+    const clock = new FakeClock()
+    const ui = mkUI(clock)
+    const answered = ui.prompt('a', { message: 'Name?' })
+    clock.advance(300)
+    ui.getProps().prompts.a!.resolve('Ann')
+    await answered
+    const timedOut = ui.prompt('b', { message: 'Quick?' }, { timeoutMs: 50 })
+    clock.advance(50)
+    await expect(timedOut).rejects.toBeInstanceOf(PromptTimeoutError)
+
+    expect(ui.getProps().promptHistory).toEqual([
+      { key: 'a', args: { message: 'Name?' }, status: 'resolved', value: 'Ann', promptedAt: 0, settledAt: 300 },
+      { key: 'b', args: { message: 'Quick?' }, status: 'rejected', error: expect.any(PromptTimeoutError), promptedAt: 300, settledAt: 350 }
+    ])
+    ui.clearPromptHistory()
+    expect(ui.getProps().promptHistory).toEqual([])
+    ui.close()
+  })
+
+  it('cancels pending prompts when closed', async () => {
+    const ui = mkUI()
+    const first = ui.prompt('a', { message: 'One?' })
+    const second = ui.prompt('b', { message: 'Two?' })
+    ui.close()
+
+    await expect(first).rejects.toThrow(PromptCancelledError)
+    await expect(second).rejects.toThrow('UI closed')
+  })
+})
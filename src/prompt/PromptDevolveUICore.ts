@@ -2,21 +2,45 @@ import { Renderer, VNode } from 'core'
 import type { TerminalRenderOptions } from 'renderer/cli'
 import type { BrowserRenderOptions } from 'renderer/web'
 import { VComponent } from 'core/component'
-import { PromptArgs, PromptReplacedError, PromptReturn, PromptSpec, PromptTimeoutError } from 'prompt/prompt'
+import { PromptAbortedError, PromptArgs, PromptCancelledError, PromptHistoryEntry, PromptOptions, PromptPolicy, PromptReplacedError, PromptReturn, PromptSpec, PromptTimeoutError } from 'prompt/prompt'
 import { DevolveUICore } from 'core/DevolveUICore'
 import { Lens } from 'core/lens'
+import { PromptAnswerer, PromptNotScriptedError, PromptRecord, PromptRecording, PromptScript } from 'prompt/automation'
 
 export type RenderOptions =
   TerminalRenderOptions &
   BrowserRenderOptions
 
 export interface PromptProps<PromptKeys extends string | number | symbol> {
+  /** The prompt shown at each key, which is the last in `pendingPrompts` */
   prompts: { [Key in PromptKeys]?: PromptSpec }
+  /** Every pending prompt at each key, in the order they'll be shown from last to first (see `PromptPolicy`) */
+  pendingPrompts: { [Key in PromptKeys]?: readonly PromptSpec[] }
+  /** Settled prompts, oldest first, e.g. to render a transcript of previous answers */
+  promptHistory: ReadonlyArray<PromptHistoryEntry<PromptKeys>>
+}
+
+const PROMPT_PROP_KEYS: ReadonlyArray<keyof PromptProps<any>> = ['prompts', 'pendingPrompts', 'promptHistory']
+
+export interface AutomateOptions {
+  /**
+   * What happens to prompts the script doesn't answer:
+   * `ui` shows them like normal, `reject` rejects them with `PromptNotScriptedError`. Default is `reject`
+   */
+  unanswered?: 'ui' | 'reject'
 }
 
 export abstract class PromptDevolveUICore<Props extends PromptProps<PromptKeys>, PromptKeys extends string | number | symbol> extends DevolveUICore<Props> {
   protected abstract mkRenderer (root: () => VComponent, opts?: RenderOptions): Renderer
 
+  /** What `prompt` does when prompts are already pending at the key, unless it specifies `policy` */
+  promptPolicy: PromptPolicy = 'replace'
+
+  private automation: { answerer: PromptAnswerer, unanswered: 'ui' | 'reject', nextIndex: number } | null = null
+  private recording: PromptRecord[] | null = null
+  private nextPromptId: number = 0
+  private isClosed: boolean = false
+
   /** Renders a HUD with the given content and doesn't clear, useful for logging */
   protected static _renderSnapshot<Props>(mkRenderer: (root: () => VComponent, opts?: RenderOptions) => Renderer, RootComponent: (props: Props) => VNode, props: Props, opts?: RenderOptions): void {
     const renderer = mkRenderer(() => VComponent('RootComponent', props, RootComponent), opts)
@@ -26,59 +50,209 @@ export abstract class PromptDevolveUICore<Props extends PromptProps<PromptKeys>,
 
   constructor (RootComponent: (props: Props) => VNode, props: Omit<Props, keyof PromptProps<any>>, opts?: RenderOptions) {
     // We need to cast becuase this is slightly illegal: prompts should not require properties but we can't enforce that easily
-    super(RootComponent, { ...props as Props, prompts: {} }, opts)
+    super(RootComponent, { ...props as Props, prompts: {}, pendingPrompts: {}, promptHistory: [] }, opts)
   }
 
   override setProps (newProps: Omit<Props, keyof PromptProps<any>>): void {
     for (const _key in newProps) {
-      if (_key === 'prompts') {
-        throw new Error('can\'t set prompts directly')
+      if ((PROMPT_PROP_KEYS as string[]).includes(_key)) {
+        throw new Error(`can't set ${_key} directly`)
       }
     }
-    super.setProps({ ...newProps as Props, prompts: this.props.prompts })
+    super.setProps({ ...newProps as Props, prompts: this.props.prompts, pendingPrompts: this.props.pendingPrompts, promptHistory: this.props.promptHistory })
   }
 
-  async prompt<Key extends PromptKeys>(key: Key, promptArgs: PromptArgs<Props['prompts'][Key]>, earlyCancelPing?: () => boolean): PromptReturn<Props['prompts'][Key]> {
-    const oldPrompt = this.props.prompts[key]
-    if (oldPrompt !== undefined) {
-      // reject is a member of oldPrompt, even though it's not in the type, because we always set oldPromptand we include reject
-      oldPrompt.reject!(new PromptReplacedError())
+  /**
+   * Sets the prompt at `key` in `props.prompts` for the UI to resolve, and returns its result.
+   * If prompts are already pending at `key`, replaces, queues or stacks according to `policy` (see `PromptPolicy`).
+   * Once settled, the prompt is added to `promptHistory`.
+   *
+   * Rejects with `PromptTimeoutError` after `timeoutMs`, or with `PromptAbortedError` when `signal` is aborted.
+   * The third argument can also be an `earlyCancelPing` function, for compatibility.
+   * Timers and listeners are removed as soon as the prompt settles.
+   */
+  async prompt<Key extends PromptKeys>(key: Key, promptArgs: PromptArgs<Props['prompts'][Key]>, opts: PromptOptions | (() => boolean) = {}): PromptReturn<Props['prompts'][Key]> {
+    const record = this.recording === null ? null : PromptRecord.start(key, promptArgs)
+    this.recording?.push(record!)
+    const promptedAt = this.instance.clock.now()
+    try {
+      const value = await this.promptScriptedOrUI(key, promptArgs, opts)
+      if (record !== null) {
+        record.value = value
+      }
+      this.addToHistory({ key, args: promptArgs, status: 'resolved', value, promptedAt, settledAt: this.instance.clock.now() })
+      return value
+    } catch (error) {
+      if (record !== null) {
+        record.error = error instanceof Error ? error.message : String(error)
+      }
+      this.addToHistory({ key, args: promptArgs, status: 'rejected', error, promptedAt, settledAt: this.instance.clock.now() })
+      throw error
+    }
+  }
+
+  private async promptScriptedOrUI<Key extends PromptKeys>(key: Key, promptArgs: PromptArgs<Props['prompts'][Key]>, opts: PromptOptions | (() => boolean)): PromptReturn<Props['prompts'][Key]> {
+    if (this.automation !== null) {
+      const index = this.automation.nextIndex++
+      const answer = this.automation.answerer(String(key), promptArgs, index)
+      if (answer !== undefined) {
+        return await PromptScript.settle(answer)
+      } else if (this.automation.unanswered === 'reject') {
+        throw new PromptNotScriptedError(String(key), index)
+      }
+    }
+    return await this.promptUI(key, promptArgs, opts)
+  }
+
+  private async promptUI<Key extends PromptKeys>(key: Key, promptArgs: PromptArgs<Props['prompts'][Key]>, opts: PromptOptions | (() => boolean)): PromptReturn<Props['prompts'][Key]> {
+    const { policy: policy_, signal, timeoutMs, earlyCancelPing }: PromptOptions = typeof opts === 'function' ? { earlyCancelPing: opts } : opts
+    const policy = policy_ ?? this.promptPolicy
+    if (signal?.aborted === true) {
+      throw new PromptAbortedError()
+    }
+
+    if (policy === 'replace') {
+      // Copy because rejecting removes the prompt
+      for (const oldPrompt of [...this.props.pendingPrompts[key] ?? []]) {
+        // reject is a member of oldPrompt, even though it's not in the type, because we always set oldPrompt and we include reject
+        oldPrompt.reject!(new PromptReplacedError())
+      }
     }
-    const earlyCancelPromise: PromptReturn<Props['prompts'][Key]> = new Promise((resolve, reject) => {
-      setInterval(() => {
-        if (earlyCancelPing?.() === true) {
-          delete this.props.prompts[key]
-          reject(new PromptTimeoutError())
-        }
-      }, 100)
-    })
     // eslint-disable-next-line promise/param-names
-    const promptPromise: PromptReturn<Props['prompts'][Key]> = new Promise((resolve_, reject_) => {
-      if (key in this.props.prompts) {
+    return await new Promise((resolve_, reject_) => {
+      if (policy === 'replace' && key in this.props.prompts) {
         throw new Error('sanity check failed, probably a race condition')
       }
 
+      const cleanups: Array<() => void> = []
+      let isSettled = false
       // We want to delete the prompt before resolve completes, to prevent confusing race conditions
+      // and update so the prompt's widget is removed
+      const settle = (): boolean => {
+        if (isSettled) {
+          return false
+        }
+        isSettled = true
+        for (const cleanup of cleanups) {
+          cleanup()
+        }
+        const pending = this.props.pendingPrompts[key]
+        if (pending?.includes(prompt) === true) {
+          this.setPendingPrompts(key, pending.filter(other => other !== prompt))
+        }
+        return true
+      }
       const resolve = (arg: any): void => {
-        delete this.props.prompts[key]
-        resolve_(arg)
+        if (settle()) {
+          resolve_(arg)
+        }
       }
       const reject = (arg: any): void => {
-        delete this.props.prompts[key]
-        reject_(arg)
+        if (settle()) {
+          reject_(arg)
+        }
       }
-      this.props.prompts[key] = { ...promptArgs, resolve, reject }
+      const prompt: PromptSpec = { ...promptArgs, id: this.nextPromptId++, resolve, reject }
+      const pending = this.props.pendingPrompts[key] ?? []
+      // The last pending prompt is shown, so queued prompts go first
+      this.setPendingPrompts(key, policy === 'queue' ? [prompt, ...pending] : [...pending, prompt])
 
-      this.updateProps()
+      const clock = this.instance.clock
+      if (timeoutMs !== undefined) {
+        cleanups.push(clock.setTimeout(() => reject(new PromptTimeoutError()), timeoutMs))
+      }
+      if (earlyCancelPing !== undefined) {
+        cleanups.push(clock.setInterval(() => {
+          if (earlyCancelPing()) {
+            reject(new PromptTimeoutError())
+          }
+        }, 100))
+      }
+      if (signal !== undefined) {
+        const onAbort = (): void => reject(new PromptAbortedError())
+        signal.addEventListener('abort', onAbort)
+        cleanups.push(() => signal.removeEventListener('abort', onAbort))
+      }
     })
-    return await Promise.race([promptPromise, earlyCancelPromise])
+  }
+
+  /** Sets `pendingPrompts[key]` and shows the last one in `prompts[key]` */
+  private setPendingPrompts (key: PromptKeys, pending: readonly PromptSpec[]): void {
+    if (pending.length === 0) {
+      delete this.props.pendingPrompts[key]
+      delete this.props.prompts[key]
+    } else {
+      this.props.pendingPrompts[key] = pending
+      this.props.prompts[key] = pending[pending.length - 1]
+    }
+    this.updateProps()
+  }
+
+  private addToHistory (entry: PromptHistoryEntry<PromptKeys>): void {
+    // New array so components can tell it changed
+    this.props.promptHistory = [...this.props.promptHistory, entry]
+    this.updateProps()
+  }
+
+  /** Removes every entry from `promptHistory` */
+  clearPromptHistory (): void {
+    this.props.promptHistory = []
+    this.updateProps()
+  }
+
+  /**
+   * Answers subsequent prompts with `script` instead of the UI, so they resolve without rendering. See `PromptScript`.
+   * `null` stops, so prompts go to the UI again
+   */
+  automate (script: PromptScript | null, opts: AutomateOptions = {}): void {
+    this.automation = script === null
+      ? null
+      : { answerer: PromptScript.answerer(script), unanswered: opts.unanswered ?? 'reject', nextIndex: 0 }
+  }
+
+  /** Records each subsequent prompt's key, args and result, until `stopRecording` */
+  startRecording (): void {
+    this.recording = []
+  }
+
+  /** Returns the prompts since `startRecording`, which can be saved as JSON and replayed via `automate` */
+  stopRecording (): PromptRecording {
+    if (this.recording === null) {
+      throw new Error('not recording')
+    }
+    const recording = { prompts: this.recording }
+    this.recording = null
+    return recording
+  }
+
+  /** Rejects every pending prompt with `PromptCancelledError`, e.g. when shutting down */
+  cancelAllPrompts (reason: string = 'all prompts cancelled'): void {
+    // Object.values and flat copy, which we need because rejecting removes the prompt
+    const pending: Array<readonly PromptSpec[] | undefined> = Object.values(this.props.pendingPrompts)
+    for (const prompt of pending.flatMap(prompts => prompts ?? [])) {
+      prompt.reject!(new PromptCancelledError(reason))
+    }
+  }
+
+  /** Cancels pending prompts (see `cancelAllPrompts`), so they don't wait forever, then disposes the renderer */
+  override close (): void {
+    this.cancelAllPrompts('UI closed')
+    this.isClosed = true
+    super.close()
+  }
+
+  protected override updateProps (): void {
+    // Cancelled prompts are added to history after the renderer is disposed
+    if (!this.isClosed) {
+      super.updateProps()
+    }
   }
 
   protected override propsLens<T extends object>(props: T): Lens<T> {
     const lens = super.propsLens(props)
     Lens.onSet(lens, (newValue, debugPath) => {
-      if (debugPath === '.prompts') {
-        throw new Error('can\'t set prompts')
+      if (PROMPT_PROP_KEYS.some(key => debugPath === `.${key}`)) {
+        throw new Error(`can't set ${debugPath.slice(1)}`)
       }
     })
     return lens
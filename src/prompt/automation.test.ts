@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { intrinsics, VNode } from 'core'
+import { PromptProps } from 'prompt/PromptDevolveUICore'
+import { PromptNotScriptedError, PromptScriptMismatchError } from 'prompt/automation'
+import { PromptCancelledError, PromptSpec } from 'prompt/prompt'
+import { HeadlessPromptDevolveUI } from 'testing'
+
+interface Props extends PromptProps<'name' | 'age'> {
+  prompts: { name?: PromptSpec<string> & { message: string }, age?: PromptSpec<number> & { message: string } }
+}
+
+function PromptList ({ prompts }: Props): VNode {
+  return intrinsics.vbox({}, ...Object.entries(prompts).map(([key, spec]) => intrinsics.text({ key }, spec?.message ?? '')))
+}
+
+function mkUI (): HeadlessPromptDevolveUI<Props> {
+  const ui = new HeadlessPromptDevolveUI<Props>(PromptList, {}, { width: 20, height: 4 })
+  ui.show()
+  return ui
+}
+
+describe('prompt automation', () => {
+  it('answers prompts in order, and rejects the rest', async () => {
+    const ui = mkUI()
+    ui.automate({ inOrder: ['Ann', 30] })
+
+    await expect(ui.prompt('name', { message: 'Name?' })).resolves.toBe('Ann')
+    await expect(ui.prompt('age', { message: 'Age?' })).resolves.toBe(30)
+    await expect(ui.prompt('name', { message: 'Again?' })).rejects.toBeInstanceOf(PromptNotScriptedError)
+    expect(ui.getProps().prompts).toEqual({})
+    ui.close()
+  })
+
+  it('answers prompts by key, and can leave the rest to the UI', async () => {
+    const ui = mkUI()
+    ui.automate({ byKey: { age: [1, 2] } }, { unanswered: 'ui' })
+
+    const name = ui.prompt('name', { message: 'Name?' })
+    await expect(ui.prompt('age', { message: 'Age?' })).resolves.toBe(1)
+    await expect(ui.prompt('age', { message: 'Age?' })).resolves.toBe(2)
+    ui.renderer.tick()
+    expect(ui.renderer.lines[0].trimEnd()).toBe('Name?')
+
+    ui.getProps().prompts.name!.resolve('Bo')
+    await expect(name).resolves.toBe('Bo')
+    ui.automate(null)
+    ui.close()
+  })
+
+  it('records prompts as JSON which replays the session', async () => {
+    const ui = mkUI()
+    ui.startRecording()
+    const name = ui.prompt('name', { message: 'Name?' })
+    const age = ui.prompt('age', { message: 'Age?' })
+    ui.getProps().prompts.name!.resolve('Ann')
+    await name
+    ui.getProps().prompts.age!.reject!(new Error('no age'))
+    await expect(age).rejects.toThrow('no age')
+    const recording = JSON.parse(JSON.stringify(ui.stopRecording()))
+    ui.close()
+
+    expect(recording).toEqual({
+      prompts: [
+        { key: 'name', args: { message: 'Name?' }, value: 'Ann' },
+        { key: 'age', args: { message: 'Age?' }, error: 'no age' }
+      ]
+    })
+    expect(() => ui.stopRecording()).toThrow('not recording')
+
+    const replay = mkUI()
+    replay.automate(recording)
+    await expect(replay.prompt('name', { message: 'Name?' })).resolves.toBe('Ann')
+    await expect(replay.prompt('age', { message: 'Age?' })).rejects.toThrow(PromptCancelledError)
+    replay.close()
+
+    const mismatched = mkUI()
+    mismatched.automate(recording)
+    await expect(mismatched.prompt('age', { message: 'Age?' })).rejects.toBeInstanceOf(PromptScriptMismatchError)
+    mismatched.close()
+  })
+})
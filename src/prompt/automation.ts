@@ -0,0 +1,102 @@
+import { PromptCancelledError } from 'prompt/prompt'
+
+/** A scripted prompt result: a value to resolve, or an error message to reject with `PromptCancelledError` */
+export type PromptAnswer =
+  { value: any } |
+  { error: string }
+
+/** Returns the answer to the `index`th prompt (counting from when the script was set), or `undefined` if the script doesn't answer it */
+export type PromptAnswerer = (key: string, args: object, index: number) => PromptAnswer | undefined
+
+/**
+ * How `PromptDevolveUICore.automate` answers prompts:
+ *
+ * - `{ inOrder: values }`: each prompt is answered with the next value, regardless of its key
+ * - `{ byKey: { key: values } }`: each prompt is answered with the next of its key's values
+ * - A `PromptAnswerer` callback
+ * - A `PromptRecording`, whose prompts must come in the same order with the same keys
+ */
+export type PromptScript =
+  { inOrder: any[] } |
+  { byKey: { [key: string]: any[] } } |
+  PromptAnswerer |
+  PromptRecording
+
+/** A prompt recorded by `PromptDevolveUICore.startRecording`. Args are converted to JSON, so functions like `validate` are dropped */
+export interface PromptRecord {
+  key: string
+  args: object
+  /** Resolved value, if the prompt resolved */
+  value?: any
+  /** Error message, if the prompt was rejected */
+  error?: string
+}
+
+/** Prompts recorded from a session, in the order they were prompted. Can be saved as JSON and replayed via `automate` */
+export interface PromptRecording {
+  prompts: PromptRecord[]
+}
+
+/** Thrown when a prompt isn't answered by the script and the UI shouldn't answer it either */
+export class PromptNotScriptedError extends Error {
+  constructor (key: string, index: number) {
+    super(`prompt ${index} (${key}) isn't answered by the script`)
+  }
+}
+
+/** Thrown when a replayed recording has a different prompt than the session */
+export class PromptScriptMismatchError extends Error {
+  constructor (expectedKey: string, actualKey: string, index: number) {
+    super(`prompt ${index} should be ${expectedKey} like in the recording, but it's ${actualKey}`)
+  }
+}
+
+export module PromptScript {
+  /** Converts the script into a callback which answers each prompt */
+  export function answerer (script: PromptScript): PromptAnswerer {
+    if (typeof script === 'function') {
+      return script
+    } else if ('inOrder' in script) {
+      return (_key, _args, index) => index < script.inOrder.length ? { value: script.inOrder[index] } : undefined
+    } else if ('byKey' in script) {
+      const nextIndices: Map<string, number> = new Map()
+      return key => {
+        const values = script.byKey[key]
+        const index = nextIndices.get(key) ?? 0
+        if (values === undefined || index >= values.length) {
+          return undefined
+        }
+        nextIndices.set(key, index + 1)
+        return { value: values[index] }
+      }
+    } else {
+      return (key, _args, index) => {
+        const record = script.prompts[index]
+        if (record === undefined) {
+          return undefined
+        } else if (record.key !== key) {
+          throw new PromptScriptMismatchError(record.key, key, index)
+        }
+        return 'error' in record && record.error !== undefined ? { error: record.error } : { value: record.value }
+      }
+    }
+  }
+
+  /** Resolves or rejects like the answer */
+  export async function settle (answer: PromptAnswer): Promise<any> {
+    if ('error' in answer) {
+      throw new PromptCancelledError(answer.error)
+    }
+    return answer.value
+  }
+}
+
+export module PromptRecord {
+  /** Records the prompt's key and a JSON copy of its args, before it settles */
+  export function start (key: string | number | symbol, args: object): PromptRecord {
+    return {
+      key: String(key),
+      args: JSON.parse(JSON.stringify(args))
+    }
+  }
+}
@@ -18,12 +18,56 @@ export class PromptReplacedError extends PromptCancelledError {
   }
 }
 
+export class PromptAbortedError extends PromptCancelledError {
+  constructor () {
+    super('aborted')
+  }
+}
+
+/**
+ * What `prompt` does when prompts are already pending at the key:
+ *
+ * - `replace`: rejects them with `PromptReplacedError`
+ * - `queue`: shows the new prompt after they all settle
+ * - `stack`: shows the new prompt over them, and they're shown again after it settles
+ */
+export type PromptPolicy = 'replace' | 'queue' | 'stack'
+
+export interface PromptOptions {
+  /** Default is the UI's `promptPolicy` */
+  policy?: PromptPolicy
+  /** Rejects with `PromptAbortedError` (a `PromptCancelledError`) when aborted */
+  signal?: AbortSignal
+  /** Rejects with `PromptTimeoutError` if not resolved within this many milliseconds (on the renderer's clock), counting queued time */
+  timeoutMs?: number
+  /** Called every 100 milliseconds, rejects with `PromptTimeoutError` when it returns true. Prefer `signal` */
+  earlyCancelPing?: () => boolean
+}
+
 export interface PromptSpec<Resolve = any> {
+  /** Unique to this prompt, even if another prompt at the same key has the same args. Use it to key the prompt's component */
+  readonly id: number
   resolve: (arg: Resolve) => void
   reject?: (arg: any) => void
 }
 
-export type PromptArgs<T extends PromptSpec | undefined> = Omit<T, 'resolve' | 'reject'>
+/** A settled prompt in `promptHistory` */
+export interface PromptHistoryEntry<Key extends string | number | symbol = string | number | symbol> {
+  key: Key
+  args: object
+  status: 'resolved' | 'rejected'
+  /** If resolved */
+  value?: any
+  /** If rejected */
+  error?: any
+  /** When `prompt` was called, on the renderer's clock */
+  promptedAt: number
+  /** When the prompt resolved or rejected, on the renderer's clock */
+  settledAt: number
+}
+
+/** Distributes over unions, so each spec in a union keeps its own properties */
+export type PromptArgs<T extends PromptSpec | undefined> = T extends PromptSpec ? Omit<T, 'id' | 'resolve' | 'reject'> : never
 
 export type PromptReturn<T extends PromptSpec | undefined> =
   Promise<T extends PromptSpec ? FirstParameter<T['resolve']> : never>
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { PromptProps } from 'prompt/PromptDevolveUICore'
+import { Prompts, WidgetPromptSpec } from 'prompt/widgets'
+import { HeadlessPromptDevolveUI, parseKeys, sendKeys, textToKeys } from 'testing'
+
+type Props = PromptProps<'q'> & { prompts: { q?: WidgetPromptSpec } }
+
+function mkUI (): HeadlessPromptDevolveUI<Props> {
+  const ui = new HeadlessPromptDevolveUI<Props>(Prompts, {}, { width: 30, height: 6 })
+  ui.show()
+  return ui
+}
+
+describe('Prompts', () => {
+  it('resolves a text prompt with the typed text, after showing validation errors inline', async () => {
+    const ui = mkUI()
+    const answer = ui.prompt('q', { message: 'Name?', validate: name => name.length < 3 ? 'Too short' : null })
+    ui.renderer.tick()
+    expect(ui.renderer.lines[0].trimEnd()).toBe('Name?')
+
+    sendKeys(ui.renderer, [...textToKeys('ab'), ...parseKeys('enter')])
+    expect(ui.renderer.text).toContain('Too short')
+
+    sendKeys(ui.renderer, [...textToKeys('c'), ...parseKeys('enter')])
+    await expect(answer).resolves.toBe('abc')
+    ui.close()
+  })
+
+  it('shows a new prompt at the same key with its own state', async () => {
+    const ui = mkUI()
+    const first = ui.prompt('q', { message: 'First?', validate: () => 'Never valid' })
+    ui.renderer.tick()
+    sendKeys(ui.renderer, [...textToKeys('typed'), ...parseKeys('enter')])
+    expect(ui.renderer.text).toContain('Never valid')
+
+    const second = ui.prompt('q', { message: 'Second?', default: 'preset' }, { policy: 'stack' })
+    ui.renderer.tick()
+    expect(ui.renderer.text).toContain('Second?')
+    expect(ui.renderer.text).toContain('preset')
+    expect(ui.renderer.text).not.toContain('typed')
+    expect(ui.renderer.text).not.toContain('Never valid')
+
+    sendKeys(ui.renderer, 'enter')
+    await expect(second).resolves.toBe('preset')
+    expect(ui.renderer.text).toContain('First?')
+    ui.close()
+    await expect(first).rejects.toThrow('UI closed')
+  })
+
+  it('shows a prompt of another type at the same key', async () => {
+    const ui = mkUI()
+    const text = ui.prompt('q', { message: 'Text?' })
+    ui.renderer.tick()
+    sendKeys(ui.renderer, 'x enter')
+    await expect(text).resolves.toBe('x')
+
+    const confirm = ui.prompt('q', { type: 'confirm', message: 'Sure?', default: false })
+    ui.renderer.tick()
+    expect(ui.renderer.lines[0].trimEnd()).toBe('Sure? [y/N]')
+    sendKeys(ui.renderer, 'y')
+    await expect(confirm).resolves.toBe(true)
+    ui.close()
+  })
+})
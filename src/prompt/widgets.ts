@@ -0,0 +1,229 @@
+import { VComponent } from 'core/component'
+import { intrinsics, VNode } from 'core/view'
+import { useState } from 'core/hooks'
+import { TextInput } from 'components/text-input'
+import { MultiSelect, Select, SelectOption } from 'widgets/select'
+import { useWidgetInput, WIDGET_COLORS } from 'widgets/common'
+import { PromptSpec } from 'prompt/prompt'
+
+const ERROR_COLOR = 'red'
+
+/** Asks for text. This is the default when `type` is omitted */
+export interface TextPromptSpec extends PromptSpec<string> {
+  type?: 'text'
+  message: string
+  placeholder?: string
+  /** Initial value */
+  default?: string
+  password?: boolean
+  multiline?: boolean
+  /** Returns an error shown below the input, or `null` to resolve */
+  validate?: (value: string) => string | null
+}
+
+/** Asks yes or no: y / n answer, enter answers the default */
+export interface ConfirmPromptSpec extends PromptSpec<boolean> {
+  type: 'confirm'
+  message: string
+  /** Default is true */
+  default?: boolean
+}
+
+/** Asks to choose one option. String options are their own label and value */
+export interface ChooseOnePromptSpec<T = string> extends PromptSpec<T> {
+  type: 'choose-one'
+  message: string
+  options: Array<SelectOption<T> | (T & string)>
+  /** Initially highlighted option */
+  default?: T
+}
+
+/** Asks to check any number of options, within `min` and `max`. String options are their own label and value */
+export interface ChooseManyPromptSpec<T = string> extends PromptSpec<T[]> {
+  type: 'choose-many'
+  message: string
+  options: Array<SelectOption<T> | (T & string)>
+  /** Initially checked options */
+  default?: T[]
+  min?: number
+  max?: number
+}
+
+/** Asks for a number within `min` and `max` */
+export interface NumberPromptSpec extends PromptSpec<number> {
+  type: 'number'
+  message: string
+  placeholder?: string
+  default?: number
+  min?: number
+  max?: number
+  /** Default is false */
+  integer?: boolean
+  /** Runs after the built-in checks. Returns an error shown below the input, or `null` to resolve */
+  validate?: (value: number) => string | null
+}
+
+/** The prompt specs which `Prompts` renders without any extra component code */
+export type WidgetPromptSpec =
+  TextPromptSpec |
+  ConfirmPromptSpec |
+  ChooseOnePromptSpec<any> |
+  ChooseManyPromptSpec<any> |
+  NumberPromptSpec
+
+export interface PromptsProps {
+  prompts: { [key: string | number | symbol]: WidgetPromptSpec | undefined }
+}
+
+/**
+ * Renders every pending prompt in `prompts` with the widget for its `type`, one below another.
+ * Each widget resolves its prompt when answered, and shows validation errors inline until then.
+ *
+ * Can be the root component of a `PromptDevolveUI` itself:
+ * ```typescript
+ * const ui = new PromptDevolveUI(Prompts, {})
+ * const name = await ui.prompt('name', { message: 'Your name?' })
+ * ```
+ */
+export function Prompts ({ prompts }: PromptsProps): VNode {
+  const entries = Object.entries(prompts).filter(([, spec]) => spec !== undefined) as Array<[string, WidgetPromptSpec]>
+  return intrinsics.vbox({ gap: 1 }, ...entries.map(([key, spec]) => PromptWidget(key, spec)))
+}
+
+/**
+ * Component which renders the spec's widget and resolves it when answered.
+ * It's keyed by the spec's `id` too, so a new prompt at the same key gets a new widget instead of the previous one's state
+ */
+export function PromptWidget (key: string, spec: WidgetPromptSpec): VComponent {
+  key = `${key}-${spec.id}`
+  switch (spec.type) {
+    case undefined:
+    case 'text':
+      return VComponent(key, { spec }, TextPrompt)
+    case 'confirm':
+      return VComponent(key, { spec }, ConfirmPrompt)
+    case 'choose-one':
+      return VComponent(key, { spec }, ChooseOnePrompt)
+    case 'choose-many':
+      return VComponent(key, { spec }, ChooseManyPrompt)
+    case 'number':
+      return VComponent(key, { spec }, NumberPrompt)
+  }
+}
+
+function TextPrompt ({ spec }: { spec: TextPromptSpec }): VNode {
+  const value = useState(spec.default ?? '')
+  const error = useState<string | null>(null)
+  return promptBox(spec.message, error.v, VComponent('input', {
+    value,
+    placeholder: spec.placeholder,
+    password: spec.password,
+    multiline: spec.multiline,
+    autoFocus: true,
+    onSubmit: text => {
+      error.v = spec.validate?.(text) ?? null
+      if (error.v === null) {
+        spec.resolve(text)
+      }
+    }
+  }, TextInput))
+}
+
+function ConfirmPrompt ({ spec }: { spec: ConfirmPromptSpec }): VNode {
+  const defaultAnswer = spec.default ?? true
+  const isFocused = useWidgetInput({ autoFocus: true }, key => {
+    if (key.ctrl || key.meta) {
+      return false
+    }
+    switch (key.name) {
+      case 'y':
+        spec.resolve(true)
+        return true
+      case 'n':
+        spec.resolve(false)
+        return true
+      case 'return':
+      case 'enter':
+        spec.resolve(defaultAnswer)
+        return true
+      default:
+        return false
+    }
+  })
+  return intrinsics.hbox({},
+    intrinsics.text({}, `${spec.message} `),
+    intrinsics.text({ color: isFocused ? WIDGET_COLORS.accent : WIDGET_COLORS.muted }, defaultAnswer ? '[Y/n]' : '[y/N]')
+  )
+}
+
+function ChooseOnePrompt ({ spec }: { spec: ChooseOnePromptSpec<any> }): VNode {
+  const options = normalizeOptions(spec.options)
+  const value = useState(spec.default ?? options[0]?.value)
+  return promptBox(spec.message, null, VComponent('select', {
+    options,
+    value,
+    autoFocus: true,
+    onSubmit: spec.resolve
+  }, Select))
+}
+
+function ChooseManyPrompt ({ spec }: { spec: ChooseManyPromptSpec<any> }): VNode {
+  const options = normalizeOptions(spec.options)
+  const value = useState<any[]>(spec.default ?? [])
+  const error = useState<string | null>(null)
+  return promptBox(spec.message, error.v, VComponent('select', {
+    options,
+    value,
+    autoFocus: true,
+    onSubmit: (values: any[]) => {
+      if (spec.min !== undefined && values.length < spec.min) {
+        error.v = `Choose at least ${spec.min}`
+      } else if (spec.max !== undefined && values.length > spec.max) {
+        error.v = `Choose at most ${spec.max}`
+      } else {
+        error.v = null
+        spec.resolve(values)
+      }
+    }
+  }, MultiSelect))
+}
+
+function NumberPrompt ({ spec }: { spec: NumberPromptSpec }): VNode {
+  const value = useState(spec.default?.toString() ?? '')
+  const error = useState<string | null>(null)
+  return promptBox(spec.message, error.v, VComponent('input', {
+    value,
+    placeholder: spec.placeholder,
+    autoFocus: true,
+    onSubmit: text => {
+      const number = text.trim() === '' ? NaN : Number(text)
+      if (isNaN(number)) {
+        error.v = 'Not a number'
+      } else if (spec.integer === true && !Number.isInteger(number)) {
+        error.v = 'Must be a whole number'
+      } else if (spec.min !== undefined && number < spec.min) {
+        error.v = `Must be at least ${spec.min}`
+      } else if (spec.max !== undefined && number > spec.max) {
+        error.v = `Must be at most ${spec.max}`
+      } else {
+        error.v = spec.validate?.(number) ?? null
+      }
+      if (error.v === null) {
+        spec.resolve(number)
+      }
+    }
+  }, TextInput))
+}
+
+/** Message, then the input, then the error if there is one */
+function promptBox (message: string, error: string | null, input: VNode): VNode {
+  return intrinsics.vbox({},
+    intrinsics.text({ key: 'message' }, message),
+    input,
+    error === null ? null : intrinsics.text({ key: 'error', color: ERROR_COLOR }, error)
+  )
+}
+
+function normalizeOptions<T> (options: Array<SelectOption<T> | (T & string)>): Array<SelectOption<T>> {
+  return options.map(option => typeof option === 'string' ? { label: option, value: option } : option)
+}
@@ -30,6 +30,8 @@ try {
 
 export type { RenderOptions, PromptProps }
 export * from 'prompt/prompt'
+export * from 'prompt/widgets'
+export * from 'prompt/automation'
 
 export class DevolveUI<Props extends object> extends DevolveUICore<Props> {
   protected override mkRenderer (root: () => VComponent, opts?: RenderOptions): Renderer {
@@ -20,6 +20,8 @@ const PlatformRendererImpl: new (root: () => VComponent, opts?: RenderOptions) =
 
 export type { RenderOptions, PromptProps }
 export * from 'prompt/prompt'
+export * from 'prompt/widgets'
+export * from 'prompt/automation'
 
 export class DevolveUI<Props extends object> extends DevolveUICore<Props> {
   protected override mkRenderer (root: () => VComponent, opts?: RenderOptions): Renderer {
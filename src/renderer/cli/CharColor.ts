@@ -1,91 +1,80 @@
-
 export const TRANSPARENT = '\u{FFF0}'
 
 export type CharColor = string
-export type CharColorType = 'fg' | 'bg'
+/** Foreground color, background color, and text style (bold, underline, ...) */
+export type CharColorType = 'fg' | 'bg' | 'style'
+
+/** Open and close markers of each type. Each encoded color is the open marker, open escape, close marker, close escape */
+const MARKERS: Record<CharColorType, [string, string]> = {
+  fg: ['\u{FFF1}', '\u{FFF2}'],
+  bg: ['\u{FFF3}', '\u{FFF4}'],
+  style: ['\u{FFF5}', '\u{FFF6}']
+}
 
 export function CharColor (type: CharColorType, openEscape: string, closeEscape: string): string {
-  switch (type) {
-    case 'fg':
-      return `\u{FFF1}${openEscape}\u{FFF2}${closeEscape}`
-    case 'bg':
-      return `\u{FFF3}${openEscape}\u{FFF4}${closeEscape}`
-  }
+  const [openMarker, closeMarker] = MARKERS[type]
+  return `${openMarker}${openEscape}${closeMarker}${closeEscape}`
 }
 
 export module CharColor {
+  /** In the order they're opened, and closed in reverse */
+  export const TYPES: readonly CharColorType[] = ['fg', 'bg', 'style']
+
   export function has (type: CharColorType, string: string): boolean {
-    switch (type) {
-      case 'fg':
-        return string.includes('\u{FFF1}')
-      case 'bg':
-        return string.includes('\u{FFF3}')
-    }
+    return string.includes(MARKERS[type][0])
   }
 
   export function get (type: CharColorType, string: string): CharColor | null {
-    const fgIndex = string.indexOf('\u{FFF1}')
-    const bgIndex = string.indexOf('\u{FFF3}')
-    switch (type) {
-      case 'fg':
-        if (fgIndex === -1) {
-          return null
-        } else if (bgIndex < fgIndex) {
-          return string.substring(fgIndex)
-        } else {
-          return string.substring(fgIndex, bgIndex)
-        }
-      case 'bg':
-        if (bgIndex === -1) {
-          return null
-        } else if (fgIndex < bgIndex) {
-          return string.substring(bgIndex)
-        } else {
-          return string.substring(bgIndex, fgIndex)
-        }
+    const index = string.indexOf(MARKERS[type][0])
+    if (index === -1) {
+      return null
     }
+    return string.substring(index, nextOpenMarker(string, index + 1))
   }
 
   export function remove (string: string): string {
-    // noinspection DuplicatedCode
-    const fgIndex = string.indexOf('\u{FFF1}')
-    const bgIndex = string.indexOf('\u{FFF3}')
-    if (fgIndex === -1 && bgIndex === -1) {
-      return string
-    } else if (fgIndex === -1) {
-      return string.substring(0, bgIndex)
-    } else if (bgIndex === -1) {
-      return string.substring(0, fgIndex)
-    } else {
-      return string.substring(0, Math.min(fgIndex, bgIndex))
-    }
+    return string.substring(0, nextOpenMarker(string, 0))
+  }
+
+  /** Inserts `char` (e.g. a zero-width character) after the characters in `cell`, before its colors */
+  export function append (cell: string, char: string): string {
+    const end = nextOpenMarker(cell, 0)
+    return cell.substring(0, end) + char + cell.substring(end)
   }
 
   export function open (color: CharColor): string {
-    // noinspection DuplicatedCode
-    const fgIndex = color.indexOf('\u{FFF1}')
-    const bgIndex = color.indexOf('\u{FFF3}')
     let open = ''
-    if (fgIndex !== -1) {
-      open += color.substring(fgIndex + 1, color.indexOf('\u{FFF2}'))
-    }
-    if (bgIndex !== -1) {
-      open += color.substring(bgIndex + 1, color.indexOf('\u{FFF4}'))
+    for (const type of TYPES) {
+      const [openMarker, closeMarker] = MARKERS[type]
+      const index = color.indexOf(openMarker)
+      if (index !== -1) {
+        open += color.substring(index + 1, color.indexOf(closeMarker, index))
+      }
     }
     return open
   }
 
   export function close (color: CharColor): string {
-    // noinspection DuplicatedCode
-    const fgIndex = color.indexOf('\u{FFF2}')
-    const bgIndex = color.indexOf('\u{FFF4}')
     let close = ''
-    if (fgIndex !== -1) {
-      close += color.substring(fgIndex + 1, bgIndex > fgIndex ? color.indexOf('\u{FFF3}') : color.length)
-    }
-    if (bgIndex !== -1) {
-      close += color.substring(bgIndex + 1, fgIndex > bgIndex ? color.indexOf('\u{FFF1}') : color.length)
+    for (const type of [...TYPES].reverse()) {
+      const [, closeMarker] = MARKERS[type]
+      const index = color.indexOf(closeMarker)
+      if (index !== -1) {
+        close += color.substring(index + 1, nextOpenMarker(color, index + 1))
+      }
     }
     return close
   }
+
+  /** Index of the first open marker at or after `start`, or the string's length if there are none */
+  function nextOpenMarker (string: string, start: number): number {
+    let result = string.length
+    for (const type of TYPES) {
+      const index = string.indexOf(MARKERS[type][0], start)
+      if (index !== -1 && index < result) {
+        result = index
+      }
+    }
+    return result
+  }
 }
@@ -1,5 +1,5 @@
 import { BoundingBox, Rectangle } from 'core'
-import { CharColor, TRANSPARENT } from 'renderer/cli/CharColor'
+import { CharColor, CharColorType, TRANSPARENT } from 'renderer/cli/CharColor'
 
 /**
  * Each x/y index represents the character at that exact position in the terminal.
@@ -37,28 +37,32 @@ export module VRender {
         for (let x = 0; x < xOffset; x++) {
           line.unshift(TRANSPARENT)
         }
+        // Characters left of the terminal (e.g. scrolled out) aren't shown
+        line.splice(0, -xOffset)
       }
     }
     for (let y = 0; y < yOffset; y++) {
       vrender.unshift([])
     }
+    vrender.splice(0, -yOffset)
   }
 
-  export function collapse (textMatrix: Record<number, VRender>): string[][] {
-    for (const key of Object.keys(textMatrix)) {
-      if (isNaN(parseFloat(key))) {
-        delete textMatrix[key as any]
-      }
-    }
+  /**
+   * Layers the renders by z-position into a single render, where transparent characters are replaced by the characters under.
+   * Unlike {@link collapse}, the characters keep their {@link CharColor}s, and remaining transparent characters are kept.
+   */
+  export function flatten (textMatrix: Record<number, VRender>): VRender {
+    // Skip non-z-position keys (e.g. rect). Don't delete them because the batch may be cached
+    const matrixEntries = Object.entries(textMatrix).filter(([key]) => !isNaN(parseFloat(key)))
 
-    if (Object.values(textMatrix).length === 0) {
+    if (matrixEntries.length === 0) {
       return []
     }
 
     // Array length not width
-    const length = Math.max(...Object.values(textMatrix).map(getWidth))
-    const height = Math.max(...Object.values(textMatrix).map(getHeight))
-    const matrixSorted = Object.entries(textMatrix).sort(([lhs], [rhs]) => Number(rhs) - Number(lhs)).map(([, lines]) => lines)
+    const length = Math.max(...matrixEntries.map(([, lines]) => getWidth(lines)))
+    const height = Math.max(...matrixEntries.map(([, lines]) => getHeight(lines)))
+    const matrixSorted = matrixEntries.sort(([lhs], [rhs]) => Number(rhs) - Number(lhs)).map(([, lines]) => lines)
 
     const result: string[][] = Array(height).fill(null).map(() => Array(length).fill(TRANSPARENT))
     for (const lines of matrixSorted) {
@@ -78,10 +82,15 @@ export module VRender {
         }
       }
     }
+    return result
+  }
+
+  /** Layers the renders by z-position into lines of characters with color escapes, ready to be written to a terminal. */
+  export function collapse (textMatrix: Record<number, VRender>): string[][] {
+    const result = flatten(textMatrix)
     for (let y = 0; y < result.length; y++) {
       const line = result[y]
-      let prevFg: CharColor | null = null
-      let prevBg: CharColor | null = null
+      const prev: Record<CharColorType, CharColor | null> = { fg: null, bg: null, style: null }
       for (let x = 0; x < line.length; x++) {
         const char = line[x]
 
@@ -90,38 +99,40 @@ export module VRender {
           line[x] = ' '
         }
 
-        // Add open or close for color
-        const fg = CharColor.get('fg', char)
-        const bg = CharColor.get('bg', char)
-        if (fg !== null || bg !== null) {
-          line[x] = CharColor.remove(line[x])
-        }
-        if (prevFg !== fg && fg !== null) {
-          line[x] = CharColor.open(fg) + line[x]
-        }
-        if (prevBg !== bg && bg !== null) {
-          line[x] = CharColor.open(bg) + line[x]
-        }
-        if (prevBg !== bg && prevBg !== null) {
-          line[x] = CharColor.close(prevBg) + line[x]
-        }
-        if (prevFg !== fg && prevFg !== null) {
-          line[x] = CharColor.close(prevFg) + line[x]
-        }
-        prevFg = fg
-        prevBg = bg
+        // Add open or close for colors and style
+        const colors = CharColor.TYPES.map(type => CharColor.get(type, char))
+        line[x] = escapeChanges(prev, colors) + CharColor.remove(line[x])
       }
 
-      if (prevBg !== null) {
-        line[line.length - 1] += CharColor.close(prevBg)
-      }
-      if (prevFg !== null) {
-        line[line.length - 1] += CharColor.close(prevFg)
+      if (line.length > 0) {
+        line[line.length - 1] += escapeChanges(prev, CharColor.TYPES.map(() => null))
       }
     }
     return result
   }
 
+  /**
+   * Returns the escapes which close the colors in `prev` which aren't in `colors`, then open the colors in `colors` which aren't in `prev`.
+   * `colors` are in the order of `CharColor.TYPES`. Then sets `prev` to `colors`
+   */
+  export function escapeChanges (prev: Record<CharColorType, CharColor | null>, colors: Array<CharColor | null>): string {
+    let escapes = ''
+    CharColor.TYPES.forEach((type, i) => {
+      const prevColor = prev[type]
+      if (prevColor !== colors[i] && prevColor !== null) {
+        escapes += CharColor.close(prevColor)
+      }
+    })
+    CharColor.TYPES.forEach((type, i) => {
+      const color = colors[i]
+      if (prev[type] !== color && color !== null) {
+        escapes += CharColor.open(color)
+      }
+      prev[type] = color
+    })
+    return escapes
+  }
+
   export function clip (clipRect: Rectangle, vrender: VRender): void {
     for (let y = 0; y < vrender.length; y++) {
       const line = vrender[y]
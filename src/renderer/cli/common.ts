@@ -0,0 +1,212 @@
+import { BorderStyle, BoundingBox, Color, Rectangle, Size, TextFormat, TextLayout, TextSpan, VView } from 'core/view'
+import { CoreRenderOptions } from 'core/renderer'
+import { range } from '@raycenity/misc-ts'
+import { terminalImage } from 'renderer/cli/terminal-image-min'
+import { CoreAssetCacher, RendererImpl } from 'renderer/common'
+import { chalk } from '@raycenity/chalk-cross'
+import { VRender } from 'renderer/cli/VRender'
+import { CharColor, TRANSPARENT } from 'renderer/cli/CharColor'
+import type { DisplayObject } from 'pixi.js'
+
+class AssetCacher extends CoreAssetCacher {
+  static async image (path: string, width?: number, height?: number): Promise<VRender> {
+    try {
+      return await terminalImage.file(path, { width, height })
+    } catch (exception) {
+      console.error('Failed to load image', path, exception)
+      return [['?']]
+    }
+  }
+
+  getImage (path: string, width?: number, height?: number): [VRender | null, (didResolve: () => void) => void] {
+    return this.getAsync(path, async path => await AssetCacher.image(path, width, height))
+  }
+}
+
+/**
+ * Renders views into character grids ({@link VRender}).
+ * Subclasses decide where the grid goes (a terminal, memory, ...) and where input comes from.
+ */
+export abstract class CoreTerminalRendererImpl extends RendererImpl<VRender, AssetCacher> {
+  protected constructor (opts: CoreRenderOptions) {
+    super(new AssetCacher(), opts)
+  }
+
+  protected override clipRender (clipRect: Rectangle, columnSize: Size, render: VRender): VRender {
+    VRender.clip(clipRect, render)
+    return render
+  }
+
+  protected override renderText (bounds: BoundingBox, columnSize: Size, spans: readonly TextSpan[], format: TextFormat): VRender {
+    const colors = spans.map(CoreTerminalRendererImpl.spanColors)
+    const result: VRender = []
+    for (const line of TextLayout.layout(spans, bounds.width, bounds.height, format)) {
+      while (result.length <= line.y) {
+        result.push([])
+      }
+      const row = result[line.y]
+      for (const cell of line.cells) {
+        while (row.length < cell.x) {
+          row.push(TRANSPARENT)
+        }
+        // Wide characters are followed by empty cells, which have the colors so the background is continuous
+        row.push(cell.text + colors[cell.span])
+        for (let i = 1; i < cell.width; i++) {
+          row.push(colors[cell.span])
+        }
+      }
+    }
+
+    VRender.translate1(result, bounds)
+    return result
+  }
+
+  /** Foreground, background and style escapes of the span, appended to each of its characters */
+  private static spanColors (span: TextSpan): string {
+    let colors = ''
+    if (span.color !== undefined) {
+      const rgbColor = Color.toRGB(span.color)
+      const { openEscape, closeEscape } = chalk.rgb(rgbColor.red * 255, rgbColor.green * 255, rgbColor.blue * 255)
+      colors += CharColor('fg', openEscape, closeEscape)
+    }
+    if (span.background !== undefined) {
+      const rgbColor = Color.toRGB(span.background)
+      const { openEscape, closeEscape } = chalk.bgRgb(rgbColor.red * 255, rgbColor.green * 255, rgbColor.blue * 255)
+      colors += CharColor('bg', openEscape, closeEscape)
+    }
+
+    const open: number[] = []
+    const close: Set<number> = new Set()
+    for (const [enabled, openCode, closeCode] of [
+      [span.bold, 1, 22],
+      [span.dim, 2, 22],
+      [span.italic, 3, 23],
+      [span.underline, 4, 24],
+      [span.inverse, 7, 27],
+      [span.strikethrough, 9, 29]
+    ] as Array<[boolean | undefined, number, number]>) {
+      if (enabled === true) {
+        open.push(openCode)
+        close.add(closeCode)
+      }
+    }
+    if (open.length > 0) {
+      colors += CharColor('style', `\x1b[${open.join(';')}m`, `\x1b[${[...close].join(';')}m`)
+    }
+    return colors
+  }
+
+  protected override renderSolidColor (rect: Rectangle, columnSize: Size, color: Color): VRender {
+    if (rect.width === 0 || rect.height === 0) {
+      return []
+    }
+
+    const rgbColor = Color.toRGB(color)
+    const { openEscape, closeEscape } = chalk.bgRgb(rgbColor.red * 255, rgbColor.green * 255, rgbColor.blue * 255)
+    const bg = CharColor('bg', openEscape, closeEscape)
+
+    const result: VRender = range(rect.height).map(() => Array(rect.width).fill(` ${bg}`))
+
+    VRender.translate2(result, rect.left, rect.top)
+    return result
+  }
+
+  protected override renderBorder (rect: Rectangle, columnSize: Size, color: Color | null, borderStyle: BorderStyle): VRender {
+    if (rect.width === 0 || rect.height === 0) {
+      return []
+    }
+
+    let fg: string
+    if (color !== null) {
+      const rgbColor = Color.toRGB(color)
+      const { openEscape, closeEscape } = chalk.rgb(rgbColor.red * 255, rgbColor.green * 255, rgbColor.blue * 255)
+      fg = CharColor('fg', openEscape, closeEscape)
+    } else {
+      fg = ''
+    }
+
+    const border = BorderStyle.ASCII[borderStyle]
+    const result: VRender = range(rect.height).map(i => {
+      if (i === 0) {
+        if (border.topAlt !== undefined) {
+          return [border.topLeft, ...range(rect.width - 2).map(i => i % 2 === 0 ? border.top : border.topAlt), border.topRight]
+        } else {
+          return [border.topLeft, ...Array(rect.width - 2).fill(border.top), border.topRight]
+        }
+      } else if (i === rect.height - 1) {
+        if (border.bottomAlt !== undefined) {
+          return [border.bottomLeft, ...range(rect.width - 2).map(i => i % 2 === 0 ? border.bottom : border.bottomAlt), border.bottomRight]
+        } else {
+          return [border.bottomLeft, ...Array(rect.width - 2).fill(border.bottom), border.bottomRight]
+        }
+      } else {
+        if (border.leftAlt !== undefined && border.rightAlt !== undefined) {
+          return [i % 2 === 0 ? border.left : border.leftAlt, ...Array(rect.width - 2).fill(TRANSPARENT), i % 2 === 0 ? border.right : border.rightAlt]
+        } else {
+          return [border.left, ...Array(rect.width - 2).fill(TRANSPARENT), border.right]
+        }
+      }
+    }).map(row => row.map((char: string) => char === TRANSPARENT ? char : char + fg))
+
+    VRender.translate2(result, rect.left, rect.top)
+    return result
+  }
+
+  protected override renderScrollbar (track: Rectangle, columnSize: Size, orientation: 'horizontal' | 'vertical', thumbStart: number, thumbSize: number): VRender {
+    const isThumb = (i: number): boolean => i >= thumbStart && i < thumbStart + thumbSize
+    const result: VRender = orientation === 'vertical'
+      ? range(track.height).map(i => [isThumb(i) ? '┃' : '│'])
+      : [range(track.width).map(i => isThumb(i) ? '━' : '─')]
+
+    VRender.translate2(result, track.left, track.top)
+    return result
+  }
+
+  protected override renderImage (bounds: BoundingBox, columnSize: Size, src: string, view: VView): { render: VRender, size: Size } {
+    const [image, resolveCallback] = this.assets.getImage(src, bounds.width, bounds.height)
+    if (image === undefined) {
+      throw new Error(`Image should not ever be undefined: ${src}`)
+    } else if (image === null) {
+      resolveCallback(() => this.invalidate(view))
+      return {
+        render: this.renderText(bounds, columnSize, [{ text: '...', color: Color('gray') }], { wrapMode: 'clip' }),
+        size: { width: '...'.length, height: 1 }
+      }
+    } else {
+      // render = deepCopy(image)
+      const render = image.map(row => [...row])
+      VRender.translate1(render, bounds)
+
+      return {
+        render,
+        size: {
+          width: Math.max(0, ...image.map(line => line.length)),
+          height: image.length
+        }
+      }
+    }
+  }
+
+  protected override renderVectorImage (bounds: BoundingBox, columnSize: Size, src: string): { render: VRender, size: Size } {
+    // Don't render these in terminal
+    return {
+      render: [],
+      size: { width: 0, height: 0 }
+    }
+  }
+
+  protected override renderPixi (bounds: BoundingBox, columnSize: Size, pixi: DisplayObject | 'terminal'): { render: VRender, size: Size | null } {
+    if (pixi !== 'terminal') {
+      throw new Error('pixi DisplayObject should be null in terminal')
+    }
+    // Nothing
+    return {
+      render: [],
+      size: null
+    }
+  }
+
+  protected override disposeRender (): void {
+    // Renders are plain strings
+  }
+}
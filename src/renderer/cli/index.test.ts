@@ -0,0 +1,243 @@
+import { EventEmitter } from 'events'
+import { PassThrough } from 'stream'
+import readline, { Interface } from 'readline'
+import type { ReadStream, WriteStream } from 'tty'
+import { afterEach, beforeAll, describe, expect, it } from 'vitest'
+import { intrinsics, MouseInput, VNode } from 'core'
+import { VComponent } from 'core/component'
+import { initModule, TerminalRendererImpl, TerminalRenderOptions } from 'renderer/cli'
+
+const { hbox, text, vbox } = intrinsics
+
+const RED = '\x1b[38;2;255;0;0m'
+const FG_CLOSE = '\x1b[39m'
+
+/** Records what's written instead of writing to a terminal */
+class FakeOutput extends EventEmitter {
+  readonly isTTY = true
+  readonly columns = 10
+  readonly rows = 3
+  private written = ''
+
+  write (chunk: string): boolean {
+    this.written += chunk
+    return true
+  }
+
+  /** Returns what was written since the last call */
+  take (): string {
+    const written = this.written
+    this.written = ''
+    return written
+  }
+}
+
+interface Frame {
+  /** Each line is a text, or spans of text and whether they're red */
+  lines: Array<string | Array<[string, boolean]>>
+}
+
+const Frame = ({ lines }: Frame): VNode => vbox({}, ...lines.map(line => typeof line === 'string'
+  ? text({}, line)
+  : hbox({}, ...line.map(([line, isRed]) => text({ color: isRed ? { red: 1, green: 0, blue: 0 } : undefined }, line)))
+))
+
+/** Creates a terminal renderer which writes into a `FakeOutput`. Frames are only rendered with `render`, which returns what it wrote */
+function renderTerminal (opts: TerminalRenderOptions = {}): { renderer: TerminalRendererImpl, input: PassThrough, output: FakeOutput, render: (lines: Frame['lines']) => string } {
+  const input = new PassThrough()
+  const output = new FakeOutput()
+  const renderer = new TerminalRendererImpl(() => VComponent<Frame>('frame', { lines: [] }, Frame), {
+    input: input as unknown as ReadStream,
+    output: output as unknown as WriteStream,
+    interact: { close: () => {} } as unknown as Interface,
+    ...opts
+  })
+  renderers.push(renderer)
+  const render = (lines: Frame['lines']): string => {
+    renderer.reroot({ lines })
+    renderer.forceRerender()
+    return output.take()
+  }
+  return { renderer, input, output, render }
+}
+
+let renderers: TerminalRendererImpl[] = []
+
+beforeAll(() => {
+  initModule({ readline })
+})
+
+/** Disposes the renderer now instead of after the test */
+function dispose (renderer: TerminalRendererImpl): void {
+  renderers.splice(renderers.indexOf(renderer), 1)
+  renderer.dispose()
+}
+
+afterEach(() => {
+  for (const renderer of renderers) {
+    renderer.dispose()
+  }
+  renderers = []
+})
+
+describe('TerminalRendererImpl strict output', () => {
+  it('clears and writes the first frame, then writes nothing for unchanged frames', () => {
+    const { render } = renderTerminal()
+
+    expect(render(['ab', 'c'])).toBe('\x1b[2J\x1b[1;1Hab\x1b[2;1Hc')
+    expect(render(['ab', 'c'])).toBe('')
+  })
+
+  it('writes only a single changed cell', () => {
+    const { render } = renderTerminal()
+    render(['abc', 'def'])
+
+    expect(render(['abc', 'dxf'])).toBe('\x1b[2;2Hx')
+  })
+
+  it('merges runs separated by fewer unchanged cells than the maximum gap', () => {
+    const { render } = renderTerminal()
+    render(['a.....b.'])
+
+    // 5 unchanged cells are cheaper to rewrite than moving the cursor
+    expect(render(['A.....B.'])).toBe('\x1b[1;1HA.....B')
+    expect(render(['A.....BC'])).toBe('\x1b[1;8HC')
+    // 6 aren't
+    expect(render(['a.....Bc'])).toBe('\x1b[1;1Ha\x1b[1;8Hc')
+  })
+
+  it('repositions the cursor after wide and non-simple graphemes, and doesn\'t merge runs across them', () => {
+    const { render } = renderTerminal()
+    render(['abc'])
+
+    expect(render(['界d'])).toBe('\x1b[1;1H界\x1b[1;3Hd')
+    expect(render(['e\u0301bd'])).toBe('\x1b[1;1He\u0301\x1b[1;2Hb')
+    render(['a界c'])
+    expect(render(['b界d'])).toBe('\x1b[1;1Hb\x1b[1;4Hd')
+  })
+
+  it('opens the colors of each run at its start and closes them at its end', () => {
+    const { render } = renderTerminal()
+    render([[['abc', true], ['d', false]]])
+
+    // The unchanged red cells before the run don't carry over
+    expect(render([[['aXc', true], ['d', false]]])).toBe(`\x1b[1;2H${RED}X${FG_CLOSE}`)
+    expect(render([[['aX', true], ['yd', false]]])).toBe('\x1b[1;3Hy')
+    expect(render([[['a', true], ['Xyd', false]]])).toBe('\x1b[1;2HX')
+    expect(render([[['a', true], ['X', false], ['yd', true]]])).toBe(`\x1b[1;3H${RED}yd${FG_CLOSE}`)
+  })
+})
+
+describe('TerminalRendererImpl screen modes', () => {
+  const PROCESS_EVENTS = ['SIGINT', 'SIGTERM', 'uncaughtExceptionMonitor', 'exit'] as const
+  const listenerCounts = (): number[] => PROCESS_EVENTS.map(event => process.listenerCount(event))
+
+  it('enters and leaves the alternate screen in fullscreen mode', () => {
+    const { renderer, output, render } = renderTerminal({ screenMode: 'fullscreen' })
+    renderer.show()
+
+    // Enter the alternate screen, move to the top left, hide the cursor, then clear and write the (empty) first frame
+    expect(output.take()).toBe('\x1b[?1049h\x1b[H\x1b[?25l\x1b[2J')
+    expect(render(['ab'])).toBe('\x1b[1;1Hab')
+    renderer.hide()
+    expect(output.take()).toBe('\x1b[?1049l\x1b[?25h')
+  })
+
+  it('moves relative to the cursor and erases below it in inline mode', () => {
+    const { renderer, output, render } = renderTerminal({ screenMode: 'inline' })
+    renderer.show()
+
+    expect(output.take()).toBe('\x1b[?25l\r\x1b[J')
+    // New rows are added with newlines, so the screen scrolls if the widget is at the bottom
+    expect(render(['ab', 'c'])).toBe('\rab\r\n\rc')
+    expect(render(['xb', 'c'])).toBe('\x1b[1A\rx')
+    expect(render(['xb', 'cd'])).toBe('\x1b[1B\r\x1b[1Cd')
+    renderer.hide()
+    // Erase the widget
+    expect(output.take()).toBe('\x1b[1A\r\x1b[J\x1b[?25h')
+  })
+
+  it('leaves the widget and moves below it when disposed in inline mode', () => {
+    const { renderer, output, render } = renderTerminal({ screenMode: 'inline' })
+    renderer.show()
+    render(['ab', 'c'])
+    render(['xb', 'c'])
+    output.take()
+
+    dispose(renderer)
+    expect(output.take()).toBe('\x1b[1B\r\r\n\x1b[?25h')
+  })
+
+  it('writes nothing to enter or leave the main screen', () => {
+    const { renderer, output } = renderTerminal()
+    renderer.show()
+
+    expect(output.take()).toBe('\x1b[2J')
+    renderer.hide()
+    expect(output.take()).toBe('')
+  })
+
+  it('listens for exit signals while the screen is entered, and removes the listeners on dispose', () => {
+    const initialCounts = listenerCounts()
+    const { renderer } = renderTerminal({ screenMode: 'fullscreen' })
+    expect(listenerCounts()).toEqual(initialCounts)
+
+    renderer.show()
+    expect(listenerCounts()).toEqual(initialCounts.map(count => count + 1))
+    dispose(renderer)
+    expect(listenerCounts()).toEqual(initialCounts)
+  })
+})
+
+describe('TerminalRendererImpl mouse input', () => {
+  /** Writes the chunks to the input one at a time, like a terminal which flushes mid-sequence, and returns the mouse events */
+  async function sendMouse (chunks: string[]): Promise<MouseInput[]> {
+    const { renderer, input } = renderTerminal()
+    const events: MouseInput[] = []
+    renderer.useMouse(mouse => events.push(mouse))
+    for (const chunk of chunks) {
+      input.write(chunk)
+      // readline emits keypresses once the stream flows
+      await new Promise(resolve => setImmediate(resolve))
+    }
+    return events
+  }
+
+  const mouse = (type: MouseInput['type'], button: MouseInput['button'], x: number, y: number, rest: Partial<MouseInput> = {}): MouseInput =>
+    ({ type, button, x, y, scrollY: 0, ctrl: false, meta: false, shift: false, ...rest })
+
+  it('parses presses and releases, and sends a click after a release in the same cell', async () => {
+    expect(await sendMouse(['\x1b[<0;5;3M\x1b[<0;5;3m'])).toEqual([
+      mouse('press', 'left', 4, 2),
+      mouse('release', 'left', 4, 2),
+      mouse('click', 'left', 4, 2)
+    ])
+    expect(await sendMouse(['\x1b[<2;5;3M\x1b[<2;6;3m'])).toEqual([
+      mouse('press', 'right', 4, 2),
+      mouse('release', 'right', 5, 2)
+    ])
+  })
+
+  it('parses drags, hovers and modifiers', async () => {
+    expect(await sendMouse(['\x1b[<32;6;3M\x1b[<35;10;1M\x1b[<17;1;1M'])).toEqual([
+      mouse('drag', 'left', 5, 2),
+      mouse('hover', 'none', 9, 0),
+      mouse('press', 'middle', 0, 0, { ctrl: true })
+    ])
+  })
+
+  it('parses vertical scrolls and ignores horizontal ones', async () => {
+    expect(await sendMouse(['\x1b[<64;2;2M\x1b[<66;2;2M\x1b[<69;2;2M'])).toEqual([
+      mouse('scroll', 'none', 1, 1, { scrollY: -1 }),
+      mouse('scroll', 'none', 1, 1, { scrollY: 1, shift: true })
+    ])
+  })
+
+  it('reassembles sequences split across reads', async () => {
+    expect(await sendMouse(['\x1b[<0;1', '2;3', '4M\x1b[', '<0;12;34m'])).toEqual([
+      mouse('press', 'left', 11, 33),
+      mouse('release', 'left', 11, 33),
+      mouse('click', 'left', 11, 33)
+    ])
+  })
+})
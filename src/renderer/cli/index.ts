@@ -1,15 +1,15 @@
 import type { Interface } from 'readline'
 import type { ReadStream, WriteStream } from 'tty'
-import { BorderStyle, BoundingBox, Color, Rectangle, Size, VView } from 'core/view'
+import { BoundingBox, Size } from 'core/view'
+import { MouseButton, MouseInput } from 'core/mouse'
+import { PasteKey } from 'core/paste'
 import { CoreRenderOptions } from 'core/renderer'
 import { VComponent } from 'core/component'
-import { Key, range, Strings } from '@raycenity/misc-ts'
-import { terminalImage } from 'renderer/cli/terminal-image-min'
-import { CoreAssetCacher, RendererImpl, VRenderBatch } from 'renderer/common'
-import { chalk } from '@raycenity/chalk-cross'
+import { Key, Strings } from '@raycenity/misc-ts'
+import { VRenderBatch } from 'renderer/common'
 import { VRender } from 'renderer/cli/VRender'
-import { CharColor, TRANSPARENT } from 'renderer/cli/CharColor'
-import type { DisplayObject } from 'pixi.js'
+import { CharColor, CharColorType, TRANSPARENT } from 'renderer/cli/CharColor'
+import { CoreTerminalRendererImpl } from 'renderer/cli/common'
 
 let readline: typeof import('readline')
 
@@ -23,48 +23,65 @@ export interface TerminalRenderOptions extends CoreRenderOptions {
   interact?: Interface
   /** Determines how strict to enforce character positions.
    * More strict = less screen glitches, but also slower and less compatible with stdio or older terminals.
-   * Default is 'strict', use 'loose' for simple CLI apps e.g. those without images
+   * Default is 'strict', use 'loose' for simple CLI apps e.g. those without images.
+   * In 'strict' mode only the cells which changed since the last frame are written.
    */
   positionStrictness?: 'strict' | 'loose'
+  /**
+   * Where to render:
+   *
+   * - 'main' (default): the main screen, positioned from its top-left
+   * - 'fullscreen': the alternate screen, so the terminal's previous contents come back when hidden or disposed
+   * - 'inline': wherever the cursor is when shown, for small widgets which shouldn't take over the screen
+   *
+   * In 'fullscreen' and 'inline' the cursor is hidden while shown.
+   * The terminal is restored on `hide`, `dispose`, SIGINT, SIGTERM and uncaught exceptions.
+   */
+  screenMode?: 'main' | 'fullscreen' | 'inline'
 }
 
-class AssetCacher extends CoreAssetCacher {
-  static async image (path: string, width?: number, height?: number): Promise<VRender> {
-    try {
-      return await terminalImage.file(path, { width, height })
-    } catch (exception) {
-      console.error('Failed to load image', path, exception)
-      return [['?']]
-    }
-  }
-
-  getImage (path: string, width?: number, height?: number): [VRender | null, (didResolve: () => void) => void] {
-    return this.getAsync(path, async path => await AssetCacher.image(path, width, height))
-  }
-}
-
-export class TerminalRendererImpl extends RendererImpl<VRender, AssetCacher> {
+export class TerminalRendererImpl extends CoreTerminalRendererImpl {
   private readonly interact: Interface
   private readonly input: ReadStream
   private readonly output: WriteStream
 
   private linesOutput: number = 0
+  /** Previous frame written in 'strict' mode, which the next frame is diffed against */
+  private prevFrame: VRender | null = null
   private readonly positionStrictness: 'strict' | 'loose'
+  private readonly screenMode: 'main' | 'fullscreen' | 'inline'
+  /** Whether we changed the terminal (alternate screen, hidden cursor) and need to restore it */
+  private isScreenEntered: boolean = false
+  /** In 'inline' mode, the cursor's row relative to the top of the widget */
+  private inlineCursorY: number = 0
+  /** In 'inline' mode, the number of rows the widget has taken so far */
+  private inlineRows: number = 1
+  private isMouseTracking: boolean = false
+  private isBracketedPaste: boolean = false
+  /** Whether we're listening for process exit, signals and crashes to restore the terminal */
+  private hasProcessListeners: boolean = false
+  private readonly keyHandlers: Set<(key: Key) => void> = new Set()
+  /** Characters of the SGR mouse sequence we're currently reading, see `onKeypress` */
+  private pendingMouseSequence: string | null = null
+  /** Text pasted so far while we're reading a bracketed paste, see `onKeypress` */
+  private pendingPaste: string | null = null
 
   constructor (root: () => VComponent, opts: TerminalRenderOptions = {}) {
-    super(new AssetCacher(), opts)
+    super(opts)
 
-    let { input, output, interact, positionStrictness } = opts
+    let { input, output, interact, positionStrictness, screenMode } = opts
 
     input = input ?? process.stdin
     output = output ?? process.stdout
     interact = interact ?? readline.createInterface({ input, output, terminal: true })
     positionStrictness = positionStrictness ?? 'strict'
+    screenMode = screenMode ?? 'main'
 
     this.interact = interact
     this.input = input
     this.output = output
     this.positionStrictness = positionStrictness
+    this.screenMode = screenMode
 
     // Configure input
     if (this.input.isTTY) {
@@ -72,6 +89,10 @@ export class TerminalRendererImpl extends RendererImpl<VRender, AssetCacher> {
     }
     this.input.setEncoding('utf8')
     readline.emitKeypressEvents(this.input)
+    this.input.addListener('keypress', this.onKeypress)
+
+    // Configure output
+    this.output.on('resize', this.onResize)
 
     this.finishInit(root)
   }
@@ -87,277 +108,404 @@ export class TerminalRendererImpl extends RendererImpl<VRender, AssetCacher> {
   }
 
   protected override writeRender (render: VRenderBatch<VRender>): void {
-    const lines = VRender.collapse(render)
-
-    if (this.positionStrictness === 'strict') {
-      // Clear screen and move to top left
-      this.output.write('\x1b[2J')
-      this.output.write('\x1b[H')
-    }
-
-    // Write lines
-    lines.forEach((line, i) => {
-      line.forEach((char, j) => {
-        if (this.positionStrictness === 'strict') {
-          // This moves the cursor to the exact location of the character so there aren't any issues
-          // It's expensive but terminal emulation is really varied, especially with images,
-          // and there are a lot of terminals which just don't do things the right way
-          this.output.write(`\x1b[${i + 1};${j + 1}H`)
-        }
-        this.output.write(char)
-      })
+    switch (this.positionStrictness) {
+      case 'strict':
+        this.writeChangedCells(VRender.flatten(render))
+        break
+      case 'loose':
+        this.writeLines(VRender.collapse(render))
+        break
+    }
+  }
 
-      if (this.positionStrictness === 'loose') {
-        this.output.write('\n')
-      }
-    })
-    this.linesOutput += lines.length
+  override show (): void {
+    this.enterScreen()
+    super.show()
   }
 
-  protected override getRootDimensions (): {
-    boundingBox: BoundingBox
-    columnSize?: Size
-  } {
-    return {
-      boundingBox: {
-        x: 0,
-        y: 0,
-        z: 0,
-        anchorX: 0,
-        anchorY: 0,
-        width: this.output.columns,
-        height: this.output.rows
-      }
-    }
+  override hide (): void {
+    super.hide()
+    this.exitScreen(true)
+    // The screen may change while hidden, so the next render needs to repaint everything
+    this.prevFrame = null
   }
 
-  protected override clipRender (clipRect: Rectangle, columnSize: Size, render: VRender): VRender {
-    VRender.clip(clipRect, render)
-    return render
+  private enterScreen (): void {
+    if (this.isScreenEntered || this.screenMode === 'main') {
+      return
+    }
+
+    if (this.screenMode === 'fullscreen') {
+      // Enter alternate screen and move to top left
+      this.output.write('\x1b[?1049h\x1b[H')
+    }
+    // Hide cursor
+    this.output.write('\x1b[?25l')
+
+    this.isScreenEntered = true
+    this.updateProcessListeners()
   }
 
-  protected override renderText (bounds: BoundingBox, columnSize: Size, wrap: 'word' | 'char' | 'clip' | undefined, color: Color | null, text: string | string[]): VRender {
-    const width = bounds.width ?? Infinity
-    const height = bounds.height ?? Infinity
-    const input = Array.isArray(text) ? text : text.split('\n')
-
-    const result: VRender = []
-    let nextOutLine: string[] = []
-    let nextOutLineWidth = 0
-    // eslint-disable-next-line no-labels
-    outer: for (const line of input) {
-      const chars = [...line]
-      let nextWord: string[] = []
-      let nextWordWidth = 0
-      for (const char of chars) {
-        const charWidth = Strings.width(char)
-        if (wrap === 'word' && /^\w$/.test(char)) {
-          // add to word
-          // width will never be 0
-          nextWord.push(char)
-          for (let i = 1; i < charWidth; i++) {
-            nextWord.push('')
-          }
-          nextWordWidth += charWidth
-        } else {
-          if (nextWord.length > 0) {
-            // wrap line if necessary and add word
-            if (nextOutLineWidth + nextWordWidth > width) {
-              // nextWord.length > 0 implies wrap === 'word'
-              // so wrap line
-              if (result.length === height) {
-                // no more room
-                // eslint-disable-next-line no-labels
-                break outer
-              }
-              result.push(nextOutLine)
-              nextOutLine = []
-              nextOutLineWidth = 0
-            }
-
-            // add word
-            nextOutLine.push(...nextWord)
-            nextOutLineWidth += nextWordWidth
-            nextWord = []
-            nextWordWidth = 0
-          }
+  /** Restores the terminal. In 'inline' mode, if `clearInline` we erase the widget, otherwise we leave it and move below */
+  private exitScreen (clearInline: boolean): void {
+    if (!this.isScreenEntered) {
+      return
+    }
 
-          if (charWidth === 0) {
-            // zero-width char, so we add it to the last character so it's outside on overlap
-            nextOutLine[nextOutLine.length - 1] += char
-          } else {
-            // wrap if necessary and add char
-            if (nextOutLineWidth + charWidth > width) {
-              switch (wrap) {
-                case 'word':
-                case 'char':
-                  if (result.length === height) {
-                    // no more room
-                    // eslint-disable-next-line no-labels
-                    break outer
-                  }
-                  result.push(nextOutLine)
-                  nextOutLine = []
-                  nextOutLineWidth = 0
-                  break
-                case 'clip':
-                  // This breaks out of the switch and contiues the for loop, avoiding nextOutLine.push(char); ...
-                  // (don't think too hard about it)
-                  continue
-                case undefined:
-                  console.warn('text extended past width but wrap is undefined')
-                  break
-              }
-            }
-
-            // add char
-            nextOutLine.push(char)
-            for (let i = 1; i < charWidth; i++) {
-              nextOutLine.push('')
-            }
-            nextOutLineWidth += charWidth
-          }
-        }
-      }
+    this.isScreenEntered = false
+    this.updateProcessListeners()
 
-      // add line
-      if (result.length === height) {
-        // no more room
-        // eslint-disable-next-line no-labels
+    switch (this.screenMode) {
+      case 'fullscreen':
+        // Leave alternate screen
+        this.output.write('\x1b[?1049l')
+        break
+      case 'inline':
+        if (clearInline) {
+          this.output.write(`${this.moveCursorTo(0, 0)}\x1b[J`)
+          this.inlineRows = 1
+        } else {
+          this.output.write(`${this.moveCursorTo(0, this.inlineRows - 1)}\r\n`)
+          this.inlineCursorY = 0
+          this.inlineRows = 1
+        }
         break
-      }
-      result.push(nextOutLine)
-      nextOutLine = []
-      nextOutLineWidth = 0
     }
+    // Show cursor
+    this.output.write('\x1b[?25h')
+  }
+
+  private readonly onResize = (): void => {
+    // The terminal may reflow or clear what we wrote, so the next render needs to repaint everything
+    this.prevFrame = null
+    this.didResize()
+  }
 
-    if (color !== null) {
-      const rgbColor = Color.toRGB(color)
-      const { openEscape, closeEscape } = chalk.rgb(rgbColor.red * 255, rgbColor.green * 255, rgbColor.blue * 255)
-      const fg = CharColor('fg', openEscape, closeEscape)
-      VRender.addColor(result, fg)
+  protected override setMouseTracking (enabled: boolean): void {
+    if (this.isMouseTracking === enabled) {
+      return
     }
 
-    VRender.translate1(result, bounds)
-    return result
+    // 1000 = report presses and releases, 1002 = also drags, 1003 = also hover, 1006 = SGR encoding
+    this.output.write(enabled ? '\x1b[?1000h\x1b[?1002h\x1b[?1003h\x1b[?1006h' : '\x1b[?1006l\x1b[?1003l\x1b[?1002l\x1b[?1000l')
+    this.isMouseTracking = enabled
+    this.updateProcessListeners()
   }
 
-  protected override renderSolidColor (rect: Rectangle, columnSize: Size, color: Color): VRender {
-    if (rect.width === 0 || rect.height === 0) {
-      return []
+  /** Bracketed paste wraps pasted text in ESC [ 200 ~ and ESC [ 201 ~, so we can tell it apart from typed keys */
+  private setBracketedPaste (enabled: boolean): void {
+    if (this.isBracketedPaste === enabled || !this.output.isTTY) {
+      return
     }
 
-    const rgbColor = Color.toRGB(color)
-    const { openEscape, closeEscape } = chalk.bgRgb(rgbColor.red * 255, rgbColor.green * 255, rgbColor.blue * 255)
-    const bg = CharColor('bg', openEscape, closeEscape)
+    this.output.write(enabled ? '\x1b[?2004h' : '\x1b[?2004l')
+    this.isBracketedPaste = enabled
+    this.updateProcessListeners()
+  }
 
-    const result: VRender = range(rect.height).map(() => Array(rect.width).fill(` ${bg}`))
+  /** Restores everything we changed in the terminal */
+  private restoreTerminal (): void {
+    this.setMouseTracking(false)
+    this.setBracketedPaste(false)
+    this.exitScreen(false)
+  }
+
+  /** Listen for process exit, signals and crashes if we changed the terminal, so we can restore it */
+  private updateProcessListeners (): void {
+    const needsProcessListeners = this.isScreenEntered || this.isMouseTracking || this.isBracketedPaste
+    if (needsProcessListeners && !this.hasProcessListeners) {
+      process.on('SIGINT', this.onExitSignal)
+      process.on('SIGTERM', this.onExitSignal)
+      // Monitor runs before the error is printed, so it's printed to the main screen
+      process.on('uncaughtExceptionMonitor', this.onExit)
+      process.on('exit', this.onExit)
+    } else if (!needsProcessListeners && this.hasProcessListeners) {
+      process.removeListener('SIGINT', this.onExitSignal)
+      process.removeListener('SIGTERM', this.onExitSignal)
+      process.removeListener('uncaughtExceptionMonitor', this.onExit)
+      process.removeListener('exit', this.onExit)
+    }
+    this.hasProcessListeners = needsProcessListeners
+  }
 
-    VRender.translate2(result, rect.left, rect.top)
-    return result
+  private readonly onExit = (): void => {
+    this.restoreTerminal()
   }
 
-  protected override renderBorder (rect: Rectangle, columnSize: Size, color: Color | null, borderStyle: BorderStyle): VRender {
-    if (rect.width === 0 || rect.height === 0) {
-      return []
+  private readonly onExitSignal = (signal: NodeJS.Signals): void => {
+    this.restoreTerminal()
+    // Our listener replaced the default behavior (exit), so re-raise unless someone else handles it
+    if (process.listenerCount(signal) === 0) {
+      process.kill(process.pid, signal)
     }
+  }
 
-    let fg: string
-    if (color !== null) {
-      const rgbColor = Color.toRGB(color)
-      const { openEscape, closeEscape } = chalk.rgb(rgbColor.red * 255, rgbColor.green * 255, rgbColor.blue * 255)
-      fg = CharColor('fg', openEscape, closeEscape)
-    } else {
-      fg = ''
+  /**
+   * Writes only the cells which changed since the previous frame.
+   * Changed cells are written in runs, and runs separated by a few unchanged cells are merged,
+   * since rewriting those is cheaper than moving the cursor.
+   */
+  private writeChangedCells (frame: VRender): void {
+    const prevFrame = this.prevFrame
+    let out = ''
+    if (prevFrame === null) {
+      // Nothing to diff against, so clear the screen (or in 'inline' mode, below the widget) and diff against blank
+      out += this.screenMode === 'inline' ? `${this.moveCursorTo(0, 0)}\x1b[J` : '\x1b[2J'
     }
 
-    const border = BorderStyle.ASCII[borderStyle]
-    const result: VRender = range(rect.height).map(i => {
-      if (i === 0) {
-        if (border.topAlt !== undefined) {
-          return [border.topLeft, ...range(rect.width - 2).map(i => i % 2 === 0 ? border.top : border.topAlt), border.topRight]
-        } else {
-          return [border.topLeft, ...Array(rect.width - 2).fill(border.top), border.topRight]
-        }
-      } else if (i === rect.height - 1) {
-        if (border.bottomAlt !== undefined) {
-          return [border.bottomLeft, ...range(rect.width - 2).map(i => i % 2 === 0 ? border.bottom : border.bottomAlt), border.bottomRight]
-        } else {
-          return [border.bottomLeft, ...Array(rect.width - 2).fill(border.bottom), border.bottomRight]
-        }
-      } else {
-        if (border.leftAlt !== undefined && border.rightAlt !== undefined) {
-          return [i % 2 === 0 ? border.left : border.leftAlt, ...Array(rect.width - 2).fill(TRANSPARENT), i % 2 === 0 ? border.right : border.rightAlt]
-        } else {
-          return [border.left, ...Array(rect.width - 2).fill(TRANSPARENT), border.right]
+    const height = Math.max(frame.length, prevFrame?.length ?? 0)
+    for (let y = 0; y < height; y++) {
+      const line = frame[y] ?? []
+      const prevLine = prevFrame?.[y] ?? []
+      const width = Math.max(line.length, prevLine.length)
+
+      let runStart: number | null = null
+      let runEnd = 0
+      for (let x = 0; x <= width; x++) {
+        const isChanged = x < width && TerminalRendererImpl.cellAt(line, x) !== TerminalRendererImpl.cellAt(prevLine, x)
+        if (isChanged) {
+          if (runStart !== null && !this.canMergeRuns(line, runEnd, x)) {
+            out += this.encodeRun(line, y, runStart, runEnd)
+            runStart = null
+          }
+          runStart = runStart ?? x
+          runEnd = x + 1
+        } else if (runStart !== null && (x === width || x - runEnd >= TerminalRendererImpl.MAX_MERGED_GAP)) {
+          out += this.encodeRun(line, y, runStart, runEnd)
+          runStart = null
         }
       }
-    }).map(row => row.map((char: string) => char === TRANSPARENT ? char : char + fg))
+    }
+
+    if (out !== '') {
+      this.output.write(out)
+    }
+    this.prevFrame = frame
+  }
 
-    VRender.translate2(result, rect.left, rect.top)
-    return result
+  /** Whether it's cheaper and safe to rewrite the unchanged cells between 2 runs than to move the cursor */
+  private canMergeRuns (line: string[], gapStart: number, gapEnd: number): boolean {
+    if (gapEnd - gapStart >= TerminalRendererImpl.MAX_MERGED_GAP) {
+      return false
+    }
+    for (let x = gapStart; x < gapEnd; x++) {
+      if (!TerminalRendererImpl.isSimpleChar(CharColor.remove(TerminalRendererImpl.cellAt(line, x)))) {
+        return false
+      }
+    }
+    return true
   }
 
-  protected override renderImage (bounds: BoundingBox, columnSize: Size, src: string, view: VView): { render: VRender, size: Size } {
-    const [image, resolveCallback] = this.assets.getImage(src, bounds.width, bounds.height)
-    if (image === undefined) {
-      throw new Error(`Image should not ever be undefined: ${src}`)
-    } else if (image === null) {
-      resolveCallback(() => this.invalidate(view))
-      return {
-        render: this.renderText(bounds, columnSize, 'clip', Color('gray'), '...'),
-        size: { width: '...'.length, height: 1 }
+  /**
+   * Encodes the cells from `start` to `end` in row `y`, including the cursor move and color escapes.
+   * After any character which may not advance the cursor by exactly one column (wide characters, images),
+   * this moves the cursor to the exact location of the next character so there aren't any issues.
+   * Terminal emulation is really varied, especially with images,
+   * and there are a lot of terminals which just don't do things the right way
+   */
+  private encodeRun (line: string[], y: number, start: number, end: number): string {
+    let out = this.moveCursorTo(start, y)
+    const prev: Record<CharColorType, CharColor | null> = { fg: null, bg: null, style: null }
+    let needsMove = false
+    for (let x = start; x < end; x++) {
+      const cell = TerminalRendererImpl.cellAt(line, x)
+      const char = CharColor.remove(cell)
+      if (char === '') {
+        // Covered by the previous wide character or image
+        needsMove = true
+        continue
       }
-    } else {
-      // render = deepCopy(image)
-      const render = image.map(row => [...row])
-      VRender.translate1(render, bounds)
-
-      return {
-        render,
-        size: {
-          width: Math.max(0, ...image.map(line => line.length)),
-          height: image.length
-        }
+      if (needsMove) {
+        out += this.moveCursorTo(x, y)
+        needsMove = false
+      }
+
+      out += VRender.escapeChanges(prev, CharColor.TYPES.map(type => CharColor.get(type, cell)))
+      out += char
+      if (!TerminalRendererImpl.isSimpleChar(char)) {
+        needsMove = true
       }
     }
+    out += VRender.escapeChanges(prev, CharColor.TYPES.map(() => null))
+    return out
   }
 
-  protected override renderVectorImage (bounds: BoundingBox, columnSize: Size, src: string): { render: VRender, size: Size } {
-    // Don't render these in terminal
-    return {
-      render: [],
-      size: { width: 0, height: 0 }
+  private writeLines (lines: string[][]): void {
+    for (const line of lines) {
+      for (const char of line) {
+        this.output.write(char)
+      }
+      this.output.write('\n')
+    }
+    this.linesOutput += lines.length
+  }
+
+  /** Runs separated by this many unchanged cells or more aren't merged */
+  private static readonly MAX_MERGED_GAP = 6
+
+  /** Cell at the given position, where transparent and out-of-bounds cells are blank */
+  private static cellAt (line: string[], x: number): string {
+    const cell = line[x]
+    return cell === undefined || cell === TRANSPARENT ? ' ' : cell
+  }
+
+  /** Whether the character is guaranteed to advance the cursor by exactly one column */
+  private static isSimpleChar (char: string): boolean {
+    return [...char].length === 1 && Strings.width(char) === 1
+  }
+
+  /** Returns the escapes which move the cursor to the given cell in the frame */
+  private moveCursorTo (x: number, y: number): string {
+    if (this.screenMode !== 'inline') {
+      return `\x1b[${y + 1};${x + 1}H`
+    }
+
+    // We don't know where the widget is on the screen, so we move relative to the cursor
+    let out = ''
+    if (y >= this.inlineRows) {
+      // Go to the last row and add rows, which scrolls if we're at the bottom of the screen
+      out += TerminalRendererImpl.moveCursorRows(this.inlineRows - 1 - this.inlineCursorY)
+      out += '\r\n'.repeat(y - this.inlineRows + 1)
+      this.inlineRows = y + 1
+    } else {
+      out += TerminalRendererImpl.moveCursorRows(y - this.inlineCursorY)
+    }
+    this.inlineCursorY = y
+    out += '\r'
+    if (x > 0) {
+      out += `\x1b[${x}C`
     }
+    return out
   }
 
-  protected override renderPixi (bounds: BoundingBox, columnSize: Size, pixi: DisplayObject | 'terminal'): { render: VRender, size: Size | null } {
-    if (pixi !== 'terminal') {
-      throw new Error('pixi DisplayObject should be null in terminal')
+  private static moveCursorRows (delta: number): string {
+    if (delta < 0) {
+      return `\x1b[${-delta}A`
+    } else if (delta > 0) {
+      return `\x1b[${delta}B`
+    } else {
+      return ''
     }
-    // Nothing
+  }
+
+  protected override getRootDimensions (): {
+    boundingBox: BoundingBox
+    columnSize?: Size
+  } {
     return {
-      render: [],
-      size: null
+      boundingBox: {
+        x: 0,
+        y: 0,
+        z: 0,
+        anchorX: 0,
+        anchorY: 0,
+        width: this.output.columns,
+        height: this.output.rows
+      }
     }
   }
 
   override useInput (handler: (key: Key) => void): () => void {
-    function listener (keyStr: string, key: Key): void {
-      if (key.name === undefined) {
-        console.warn(`Unknown key: ${keyStr} ${JSON.stringify(key)}`)
+    this.keyHandlers.add(handler)
+    this.setBracketedPaste(true)
+    return () => {
+      this.keyHandlers.delete(handler)
+      if (this.keyHandlers.size === 0) {
+        this.setBracketedPaste(false)
+      }
+    }
+  }
+
+  private readonly onKeypress = (keyStr: string | undefined, key: Key): void => {
+    // readline doesn't understand SGR mouse sequences (ESC [ < button ; x ; y M/m) and splits them into a key per character,
+    // so we collect the characters and parse the sequence ourselves
+    if (this.pendingMouseSequence !== null) {
+      this.pendingMouseSequence += keyStr ?? ''
+      if (keyStr === 'M' || keyStr === 'm') {
+        const mouse = TerminalRendererImpl.parseMouse(this.pendingMouseSequence)
+        this.pendingMouseSequence = null
+        if (mouse !== null) {
+          this.emitMouse(mouse)
+        }
+      }
+      return
+    } else if (key.sequence === '\x1b[<') {
+      this.pendingMouseSequence = key.sequence
+      return
+    }
+
+    // readline splits pastes into a key per character too, so we collect them into one key
+    if (this.pendingPaste !== null) {
+      if (key.name === 'paste-end') {
+        const text = this.pendingPaste.replace(/\r\n?/g, '\n')
+        this.pendingPaste = null
+        this.emitKey(PasteKey(text))
       } else {
-        handler(key)
+        this.pendingPaste += keyStr ?? key.sequence ?? ''
       }
+      return
+    } else if (key.name === 'paste-start') {
+      this.pendingPaste = ''
+      return
     }
-    this.input.addListener('keypress', listener)
-    return () => {
-      this.input.removeListener('keypress', listener)
+
+    if (key.name === undefined && keyStr !== undefined && /^[^\p{Cc}]$/u.test(keyStr)) {
+      // readline doesn't name punctuation, so the name is the character
+      this.emitKey({ ...key, name: keyStr, sequence: keyStr })
+    } else if (key.name === undefined) {
+      console.warn(`Unknown key: ${keyStr ?? ''} ${JSON.stringify(key)}`)
+    } else {
+      this.emitKey(key)
+    }
+  }
+
+  private emitKey (key: Key): void {
+    // Copy because handlers may be added or removed while handling
+    for (const handler of [...this.keyHandlers]) {
+      handler(key)
+    }
+  }
+
+  /** Parses an SGR mouse sequence: ESC [ < button ; column ; row, then M for press or motion, m for release */
+  private static parseMouse (sequence: string): MouseInput | null {
+    // eslint-disable-next-line no-control-regex
+    const match = /^\x1b\[<(\d+);(\d+);(\d+)([Mm])$/.exec(sequence)
+    if (match === null) {
+      console.warn(`Unknown mouse sequence: ${JSON.stringify(sequence)}`)
+      return null
+    }
+
+    const code = Number(match[1])
+    const buttonCode = code & 3
+    const common = {
+      x: Number(match[2]) - 1,
+      y: Number(match[3]) - 1,
+      scrollY: 0,
+      shift: (code & 4) !== 0,
+      meta: (code & 8) !== 0,
+      ctrl: (code & 16) !== 0
+    }
+    if ((code & 64) !== 0) {
+      // Wheel: 0 = up, 1 = down, 2 and 3 = horizontal (unsupported)
+      if (buttonCode > 1) {
+        return null
+      }
+      return { ...common, type: 'scroll', button: 'none', scrollY: buttonCode === 0 ? -1 : 1 }
+    }
+
+    const button: MouseButton = (['left', 'middle', 'right', 'none'] as const)[buttonCode]
+    if ((code & 32) !== 0) {
+      return { ...common, type: button === 'none' ? 'hover' : 'drag', button }
+    } else {
+      return { ...common, type: match[4] === 'M' ? 'press' : 'release', button }
     }
   }
 
   override dispose (): void {
     super.dispose()
+    this.output.removeListener('resize', this.onResize)
+    this.input.removeListener('keypress', this.onKeypress)
+    this.restoreTerminal()
     this.interact.close()
   }
 }
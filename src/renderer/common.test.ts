@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { intrinsics, TextLayout, VNode } from 'core'
+import { renderToString } from 'testing'
+
+const { box, color, hbox, text, vbox, zbox } = intrinsics
+
+describe('measure pass', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('sizes fit-content boxes to their children, so children can use percentages', () => {
+    const rendered = renderToString(() => zbox({ width: 'fit-content' },
+      text({}, 'hello'),
+      color({ color: { red: 1, green: 0, blue: 0 }, width: '100%', height: 1 })
+    ), {}, { width: 10, height: 1, colors: 'markup' })
+
+    expect(rendered).toBe('[bg=#ff0000]hello[/]')
+  })
+
+  it('clamps natural sizes to min and max', () => {
+    const rendered = renderToString(() => vbox({},
+      text({ minWidth: 6, align: 'right' }, 'ab'),
+      text({ maxWidth: 3, wrapMode: 'char' }, 'abcdef')
+    ), {}, { width: 10, height: 3 })
+
+    expect(rendered).toBe('    ab\nabc\ndef')
+  })
+
+  it('resolves percentages of auto-sized parents against their natural size', () => {
+    const warn = vi.spyOn(console, 'warn')
+    const rendered = renderToString(() => vbox({},
+      text({}, '12345678'),
+      text({ width: '50%', align: 'right' }, 'x')
+    ), {}, { width: 20, height: 2 })
+
+    expect(rendered).toBe('12345678\n   x')
+    // While measuring, the percentage width is auto instead of 0, which would overflow
+    expect(warn).not.toHaveBeenCalled()
+  })
+
+  it('measures each view once per bounds in a frame, even in nested flex boxes', () => {
+    const size = vi.spyOn(TextLayout, 'size')
+    const nest = (depth: number): VNode => depth === 0
+      ? text({}, 'leaf')
+      : (depth % 2 === 0 ? hbox : vbox)({ flex: { grow: 1 } }, nest(depth - 1), box({ flex: { grow: 1 } }))
+
+    const rendered = renderToString(() => nest(12), {}, { width: 20, height: 2 })
+    expect(rendered).toBe('leaf\n')
+    // Without reusing measurements this is exponential in the depth (over 4000)
+    expect(size.mock.calls.length).toBeLessThan(100)
+  })
+})
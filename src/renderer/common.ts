@@ -1,9 +1,36 @@
-import { BoundingBox, Bounds, Color, DelayedSubLayout, ParentBounds, Rectangle, Size, VView, VNode } from 'core/view'
+import {
+  BoundingBox,
+  Bounds,
+  Color,
+  DelayedSubLayout,
+  FlexLayout,
+  FlexLayoutItem,
+  getLayoutBoundingBoxLeft,
+  getLayoutBoundingBoxTop,
+  GridLayout,
+  GridLayoutItem,
+  Measurement,
+  ParentBounds,
+  Rectangle,
+  Size,
+  SizeConstraint,
+  TextFormat,
+  TextLayout,
+  TextSpan,
+  VBox,
+  VText,
+  VView,
+  VNode
+} from 'core/view'
 import { CoreRenderOptions, DEFAULT_CORE_RENDER_OPTIONS, DEFAULT_COLUMN_SIZE, Renderer } from 'core/renderer'
 import { doLogRender, VComponent, VRoot } from 'core/component'
-import { assert, Key, Strings } from '@raycenity/misc-ts'
+import { assert, Key } from '@raycenity/misc-ts'
 import { BorderStyle } from 'core/view/border-style'
 import type { DisplayObject } from 'pixi.js'
+import { Clock } from 'core/clock'
+import { MouseInput } from 'core/mouse'
+import { FocusManager } from 'core/focus'
+import { KeymapManager } from 'core/keymap'
 
 type Timer = NodeJS.Timer
 
@@ -38,6 +65,8 @@ export abstract class CoreAssetCacher {
 export interface VRenderBatch<VRender> {
   [zPosition: number]: VRender
   rect: Rectangle | null
+  /** For boxes with `scrollOffset`, the extent of the children before scrolling and clipping */
+  contentRect?: Rectangle | null
 }
 
 interface CachedRenderInfo {
@@ -48,16 +77,29 @@ interface CachedRenderInfo {
 
 export abstract class RendererImpl<VRender, AssetCacher extends CoreAssetCacher> implements Renderer {
   private readonly defaultFps: number
+  readonly clock: Clock
   root: VComponent | null = null
+  /** Routes keyboard input from `useInput` to the focused component */
+  readonly focus: FocusManager = new FocusManager(() => this.root, handler => this.useInput(handler))
+  /** Dispatches keys routed by `focus` to `useKeymap` bindings */
+  readonly keymaps: KeymapManager = new KeymapManager(this.focus, () => this.clock)
   protected readonly assets: AssetCacher
 
   private readonly cachedRenders: Map<number, VRenderBatch<VRender> & CachedRenderInfo> = new Map()
+  /** Rects of measure-mode renders in this frame, by view id then by their bounds (see `measure`) */
+  private readonly measurements: Map<number, Map<string, Rectangle | null>> = new Map()
+  private readonly resizeListeners: Set<(size: Size) => void> = new Set()
+  private readonly mouseHandlers: Set<(mouse: MouseInput) => void> = new Set()
+  private readonly renderListeners: Set<() => void> = new Set()
+  /** Last press, to synthesize a click if the release is in the same cell */
+  private lastMousePress: MouseInput | null = null
   private needsRerender: boolean = false
   private timer: Timer | null = null
   private isVisible: boolean = false
 
-  protected constructor (assetCacher: AssetCacher, { fps }: CoreRenderOptions) {
+  protected constructor (assetCacher: AssetCacher, { fps, clock }: CoreRenderOptions) {
     this.defaultFps = fps ?? DEFAULT_CORE_RENDER_OPTIONS.fps
+    this.clock = clock ?? DEFAULT_CORE_RENDER_OPTIONS.clock
     this.assets = assetCacher
   }
 
@@ -73,9 +115,7 @@ export abstract class RendererImpl<VRender, AssetCacher extends CoreAssetCacher>
     }
 
     this.timer = setInterval(() => {
-      if (this.needsRerender && this.isVisible) {
-        this.forceRerender()
-      }
+      this.rerenderIfNecessary()
     }, 1 / (fps ?? this.defaultFps))
   }
 
@@ -131,15 +171,124 @@ export abstract class RendererImpl<VRender, AssetCacher extends CoreAssetCacher>
     this.needsRerender = true
   }
 
+  /** Rerenders if visible and something was invalidated since the last render. Returns whether it rerendered */
+  protected rerenderIfNecessary (): boolean {
+    if (this.needsRerender && this.isVisible) {
+      this.forceRerender()
+      return true
+    } else {
+      return false
+    }
+  }
+
   forceRerender (): void {
     this.needsRerender = false
+    // Views may have changed since the last frame
+    this.measurements.clear()
     this.clear()
     assert(this.root!.node !== null, 'sanity check failed: root not created by the time forceRender is called')
     this.writeRender(this.renderNode(null, this.getRootParentBounds(), null, this.root!.node))
+    // Copy because listeners may be added or removed while handling
+    for (const listener of [...this.renderListeners]) {
+      listener()
+    }
   }
 
+  /**
+   * Calls `handler` after every render, e.g. to measure rendered rects with `getRenderedRect`.
+   * Updates it causes are rendered in the next frame. Returns a function which removes it
+   */
+  useAfterRender (handler: () => void): () => void {
+    this.renderListeners.add(handler)
+    return () => {
+      this.renderListeners.delete(handler)
+    }
+  }
+
+  /**
+   * Calls `handler` on every key press, regardless of focus. Pasted text is one key, see `PasteKey`.
+   * Returns a function which removes it
+   */
   abstract useInput (handler: (key: Key) => void): () => void
 
+  /** Calls `handler` on every mouse event. Returns a function which removes it */
+  useMouse (handler: (mouse: MouseInput) => void): () => void {
+    if (this.mouseHandlers.size === 0) {
+      this.setMouseTracking(true)
+    }
+    this.mouseHandlers.add(handler)
+    return () => {
+      this.mouseHandlers.delete(handler)
+      if (this.mouseHandlers.size === 0) {
+        this.setMouseTracking(false)
+      }
+    }
+  }
+
+  /** The rectangle the node's view was last rendered into, or `null` if it wasn't rendered (yet) or was empty */
+  getRenderedRect (node: VNode): Rectangle | null {
+    if (node.type === 'component' && node.node === null) {
+      return null
+    }
+    return this.cachedRenders.get(VNode.view(node).id)?.rect ?? null
+  }
+
+  /** Subclasses call this with mouse events from the platform */
+  protected emitMouse (mouse: MouseInput): void {
+    // Copy because handlers may be added or removed while handling
+    const handlers = [...this.mouseHandlers]
+    for (const handler of handlers) {
+      handler(mouse)
+    }
+
+    if (mouse.type === 'press') {
+      this.lastMousePress = mouse
+    } else if (mouse.type === 'release') {
+      const press = this.lastMousePress
+      this.lastMousePress = null
+      if (
+        press !== null &&
+        press.button === mouse.button &&
+        Math.floor(press.x) === Math.floor(mouse.x) &&
+        Math.floor(press.y) === Math.floor(mouse.y)
+      ) {
+        const click: MouseInput = { ...mouse, type: 'click' }
+        for (const handler of handlers) {
+          handler(click)
+        }
+      }
+    }
+  }
+
+  /** Calls `handler` with the new root size whenever the terminal or container is resized. Returns a function which removes it */
+  useResize (handler: (size: Size) => void): () => void {
+    this.resizeListeners.add(handler)
+    return () => {
+      this.resizeListeners.delete(handler)
+    }
+  }
+
+  /** Size of the terminal or container in columns and rows. Dimensions which are unbounded (e.g. output isn't a terminal) are `Infinity` */
+  getRootSize (): Size {
+    const { boundingBox } = this.getRootDimensions()
+    return {
+      width: boundingBox.width ?? Infinity,
+      height: boundingBox.height ?? Infinity
+    }
+  }
+
+  /** Subclasses call this when the root dimensions change: every cached render has stale bounds, so we rerender everything */
+  protected didResize (): void {
+    this.cachedRenders.clear()
+    this.needsRerender = true
+    const size = this.getRootSize()
+    for (const listener of [...this.resizeListeners]) {
+      listener(size)
+    }
+  }
+
+  /** Start or stop receiving mouse events from the platform, called when the first handler is added / last is removed */
+  protected abstract setMouseTracking (enabled: boolean): void
   protected abstract clear (): void
   protected abstract writeRender (render: VRenderBatch<VRender>): void
   protected abstract getRootDimensions (): {
@@ -148,17 +297,26 @@ export abstract class RendererImpl<VRender, AssetCacher extends CoreAssetCacher>
   }
   /** Can mutate `render` if it's faster */
   protected abstract clipRender (clipRect: Rectangle, columnSize: Size, render: VRender): VRender
-  protected abstract renderText (bounds: BoundingBox, columnSize: Size, wrapMode: 'word' | 'char' | 'clip' | undefined, color: Color | null, text: string, node: VView): VRender
+  /** `spans` are the text's parts with their full style (see `VText.spans`). Lay them out with `TextLayout` so text looks the same on every platform */
+  protected abstract renderText (bounds: BoundingBox, columnSize: Size, spans: readonly TextSpan[], format: TextFormat, node: VView): VRender
   protected abstract renderSolidColor (rect: Rectangle, columnSize: Size, color: Color, node: VView): VRender
   protected abstract renderBorder (rect: Rectangle, columnSize: Size, color: Color | null, borderStyle: BorderStyle, node: VView): VRender
   protected abstract renderImage (bounds: BoundingBox, columnSize: Size, src: string, node: VView): { render: VRender, size: Size }
   protected abstract renderVectorImage (bounds: BoundingBox, columnSize: Size, src: string, node: VView): { render: VRender, size: Size }
+  /** `thumbStart` and `thumbSize` are in columns (horizontal) or rows (vertical) from the start of the track */
+  protected abstract renderScrollbar (track: Rectangle, columnSize: Size, orientation: 'horizontal' | 'vertical', thumbStart: number, thumbSize: number, node: VView): VRender
   protected abstract renderPixi (bounds: BoundingBox, columnSize: Size, pixi: DisplayObject | 'terminal', getSize: ((pixi: DisplayObject, bounds: BoundingBox, columnSize: Size) => Size) | undefined, node: VView): { render: VRender, size: Size | null }
+  /** Frees a render which won't be written, e.g. an image rendered only to measure it */
+  protected abstract disposeRender (render: VRender): void
 
   protected renderNode (parent: VView | null, parentBounds: ParentBounds, siblingBounds: Rectangle | null, node: VNode): VRenderBatch<VRender> {
     const view = VNode.view(node)
 
     RendererImpl.logRender('render', view, 'parent', parent)
+    if (parentBounds.isMeasuring === true) {
+      // Measurements are discarded, and we don't want to replace the actual cached render
+      return { rect: this.measure(parentBounds, siblingBounds, view) }
+    }
     if (this.cachedRenders.has(view.id)) {
       RendererImpl.logRender('- cached')
       const cachedRender = this.cachedRenders.get(view.id)!
@@ -192,23 +350,52 @@ export abstract class RendererImpl<VRender, AssetCacher extends CoreAssetCacher>
       return { rect: null }
     }
 
-    const bounds = (view.bounds ?? Bounds.DEFAULT)(parentBounds, siblingBounds)
+    let bounds = (view.bounds ?? Bounds.DEFAULT)(parentBounds, siblingBounds)
+    const itemSize = parentBounds.sublayout.itemSize
+    if (itemSize !== undefined) {
+      // The parent's flex or grid layout decided our size
+      bounds = {
+        ...bounds,
+        width: itemSize.width ?? bounds.width,
+        height: itemSize.height ?? bounds.height
+      }
+    }
+    if (bounds.widthConstraint !== undefined || bounds.heightConstraint !== undefined) {
+      bounds = this.constrainSize(parentBounds, siblingBounds, view, bounds)
+    }
 
     switch (view.type) {
       case 'box': {
+        const scrollOffset = view.scrollOffset
         const bounds2: ParentBounds = {
-          boundingBox: bounds,
+          boundingBox: scrollOffset === undefined ? bounds : { ...bounds, x: bounds.x - scrollOffset.x, y: bounds.y - scrollOffset.y },
           sublayout: DelayedSubLayout.resolve(view.sublayout ?? {}, bounds, parentBounds, siblingBounds),
-          columnSize: parentBounds.columnSize
+          columnSize: parentBounds.columnSize,
+          isMeasuring: parentBounds.isMeasuring
+        }
+        if (parentBounds.isMeasuring !== true && (bounds.width === undefined || bounds.height === undefined)) {
+          // Children may use percentages of our natural size
+          let naturalSize: Size | null = null
+          bounds2.naturalSize = () => {
+            naturalSize = naturalSize ?? RendererImpl.naturalSize(bounds, this.measureChildren(view, bounds2).reduce(Rectangle.union, null))
+            return naturalSize
+          }
         }
 
         // Render children
-        const children = []
-        let lastChild = null
-        for (const child of view.children) {
-          const childRender = this.renderNode(view, bounds2, lastChild?.rect ?? null, child)
-          children.push(childRender)
-          lastChild = childRender
+        let children: Array<VRenderBatch<VRender>>
+        if (bounds2.sublayout.direction === 'grid') {
+          children = this.renderGridChildren(view, bounds2)
+        } else if (DelayedSubLayout.isFlex(bounds2.sublayout, view.children.map(VNode.view))) {
+          children = this.renderFlexChildren(view, bounds2)
+        } else {
+          children = []
+          let lastChild = null
+          for (const child of view.children) {
+            const childRender = this.renderNode(view, bounds2, lastChild?.rect ?? null, child)
+            children.push(childRender)
+            lastChild = childRender
+          }
         }
 
         // Reverse so renders earlier are rendered above
@@ -229,8 +416,9 @@ export abstract class RendererImpl<VRender, AssetCacher extends CoreAssetCacher>
           }
         }
 
-        // Clip if necessary
-        if (view.clip === true) {
+        // Clip if necessary (scroll boxes always clip)
+        const contentRect = mergedRender.rect
+        if (view.clip === true || scrollOffset !== undefined) {
           // Not sure whether to use mergedRender.rect or Infinity
           // mergedRender.rect seems more consistent wrt both negative and positive offsets being clipped with auto size,
           // and you can ignore this behavior simply by nesting the clipping box in another offset box
@@ -238,7 +426,7 @@ export abstract class RendererImpl<VRender, AssetCacher extends CoreAssetCacher>
             width: bounds.width ?? mergedRender.rect?.width ?? 0,
             height: bounds.height ?? mergedRender.rect?.height ?? 0
           })
-          if (view.extend === true) {
+          if (view.extend === true || scrollOffset !== undefined) {
             mergedRender.rect = clipRect
           } else {
             mergedRender.rect = Rectangle.intersection(mergedRender.rect, clipRect)
@@ -249,6 +437,14 @@ export abstract class RendererImpl<VRender, AssetCacher extends CoreAssetCacher>
               mergedRender[zPosition] = this.clipRender(clipRect, parentBounds.columnSize, mergedRender[zPosition])
             }
           }
+          if (scrollOffset !== undefined) {
+            mergedRender.contentRect = contentRect === null
+              ? null
+              : { ...contentRect, left: contentRect.left + scrollOffset.x, top: contentRect.top + scrollOffset.y }
+            if (view.scrollbar === true && parentBounds.isMeasuring !== true) {
+              this.addScrollbars(mergedRender, clipRect, mergedRender.contentRect, scrollOffset, parentBounds.columnSize, view)
+            }
+          }
         } else if (view.extend === true) {
           if (mergedRender.rect !== null && bounds.width !== undefined && mergedRender.rect.width < bounds.width) {
             mergedRender.rect.width = bounds.width
@@ -261,14 +457,14 @@ export abstract class RendererImpl<VRender, AssetCacher extends CoreAssetCacher>
         return mergedRender
       }
       case 'text': {
-        const lines = view.text.split('\n')
-        const rect = BoundingBox.toRectangle(bounds, {
-          width: Math.max(0, ...lines.map(Strings.width)),
-          height: lines.length
-        })
+        const spans = VText.spans(view)
+        const rect = BoundingBox.toRectangle(bounds, TextLayout.size(spans, bounds.width, bounds.height, view))
+        if (parentBounds.isMeasuring === true) {
+          return { rect }
+        }
         return {
           rect,
-          [bounds.z]: this.renderText(bounds, parentBounds.columnSize, view.wrapMode, view.color, view.text, view)
+          [bounds.z]: this.renderText(bounds, parentBounds.columnSize, spans, view, view)
         }
       }
       case 'color': {
@@ -281,6 +477,9 @@ export abstract class RendererImpl<VRender, AssetCacher extends CoreAssetCacher>
           throw new Error('Cannot infer width or height for color view')
         }
         const rect = BoundingBox.toRectangle(inferredBounds as BoundingBox & Size)
+        if (parentBounds.isMeasuring === true) {
+          return { rect }
+        }
         return {
           rect,
           [bounds.z]: this.renderSolidColor(rect, parentBounds.columnSize, view.color, view)
@@ -296,6 +495,9 @@ export abstract class RendererImpl<VRender, AssetCacher extends CoreAssetCacher>
           throw new Error('Cannot infer width or height for border view')
         }
         const rect = BoundingBox.toRectangle(inferredBounds as BoundingBox & Size)
+        if (parentBounds.isMeasuring === true) {
+          return { rect }
+        }
         return {
           rect,
           [bounds.z]: this.renderBorder(rect, parentBounds.columnSize, view.color, view.style, view)
@@ -310,6 +512,10 @@ export abstract class RendererImpl<VRender, AssetCacher extends CoreAssetCacher>
           case 'gif': {
             const { render, size } = this.renderImage(bounds, parentBounds.columnSize, view.src, view)
             const rect = BoundingBox.toRectangle(bounds, size)
+            if (parentBounds.isMeasuring === true) {
+              this.disposeRender(render)
+              return { rect }
+            }
             return {
               rect,
               [bounds.z]: render
@@ -318,6 +524,10 @@ export abstract class RendererImpl<VRender, AssetCacher extends CoreAssetCacher>
           case 'svg': {
             const { render, size } = this.renderVectorImage(bounds, parentBounds.columnSize, view.src, view)
             const rect = BoundingBox.toRectangle(bounds, size)
+            if (parentBounds.isMeasuring === true) {
+              this.disposeRender(render)
+              return { rect }
+            }
             return {
               rect,
               [bounds.z]: render
@@ -337,6 +547,10 @@ export abstract class RendererImpl<VRender, AssetCacher extends CoreAssetCacher>
         }
         const { render, size } = this.renderPixi(inferredBounds, parentBounds.columnSize, view.pixi, view.getSize, view)
         const rect = size !== null ? BoundingBox.toRectangle(bounds, size) : null
+        if (parentBounds.isMeasuring === true) {
+          // The render is the view's own pixi, so it's not disposed
+          return { rect }
+        }
         return {
           rect,
           [bounds.z]: render
@@ -345,6 +559,203 @@ export abstract class RendererImpl<VRender, AssetCacher extends CoreAssetCacher>
     }
   }
 
+  /** Renders the box's children with `FlexLayout`, using their measured size as the default basis */
+  private renderFlexChildren (view: VBox, parentBounds: ParentBounds): Array<VRenderBatch<VRender>> {
+    const { boundingBox, sublayout } = parentBounds
+    const isHorizontal = sublayout.direction === 'horizontal'
+
+    const items: FlexLayoutItem[] = this.measureChildren(view, parentBounds).map((rect, i) => {
+      const flex = VNode.view(view.children[i]).flex ?? {}
+      let basis: number
+      if (flex.basis !== undefined) {
+        basis = isHorizontal ? Measurement.reifyWidth(parentBounds, flex.basis) : Measurement.reifyHeight(parentBounds, flex.basis)
+      } else {
+        basis = (isHorizontal ? rect?.width : rect?.height) ?? 0
+      }
+      return {
+        basis,
+        crossSize: (isHorizontal ? rect?.height : rect?.width) ?? 0,
+        grow: flex.grow ?? 0,
+        shrink: flex.shrink ?? 1
+      }
+    })
+
+    const gap = sublayout.gap === undefined
+      ? 0
+      : isHorizontal ? Measurement.reifyWidth(parentBounds, sublayout.gap) : Measurement.reifyHeight(parentBounds, sublayout.gap)
+    const slots = FlexLayout.layout(items, {
+      mainSize: isHorizontal ? boundingBox.width : boundingBox.height,
+      crossSize: isHorizontal ? boundingBox.height : boundingBox.width,
+      gap,
+      justify: sublayout.justify ?? 'start',
+      align: sublayout.align ?? 'start',
+      wrap: sublayout.wrap ?? false
+    })
+
+    return this.renderChildrenInSlots(view, parentBounds, slots.map(slot => isHorizontal
+      ? { left: slot.main, top: slot.cross, width: slot.mainSize, height: slot.crossSize }
+      : { left: slot.cross, top: slot.main, width: slot.crossSize, height: slot.mainSize }
+    ))
+  }
+
+  /** Renders the box's children with `GridLayout`, sizing `auto` tracks from their measured sizes (rows at their columns' width) */
+  private renderGridChildren (view: VBox, parentBounds: ParentBounds): Array<VRenderBatch<VRender>> {
+    const { sublayout } = parentBounds
+
+    const rects = this.measureChildren(view, parentBounds)
+    const items: GridLayoutItem[] = rects.map((rect, i) => {
+      const child = VNode.view(view.children[i])
+      return {
+        ...child.grid,
+        width: rect?.width ?? 0,
+        height: rect?.height ?? 0,
+        heightAt: width => this.measure(RendererImpl.slotParentBounds(parentBounds, { left: 0, top: 0, width, height: undefined }), rects[i - 1] ?? null, child)?.height ?? 0
+      }
+    })
+
+    const slots = GridLayout.layout(items, {
+      columns: (sublayout.columns ?? ['auto']).map(column => column === 'auto' ? 'auto' : Measurement.reifyWidth(parentBounds, column)),
+      rows: (sublayout.rows ?? []).map(row => row === 'auto' ? 'auto' : Measurement.reifyHeight(parentBounds, row)),
+      columnGap: sublayout.gap === undefined ? 0 : Measurement.reifyWidth(parentBounds, sublayout.gap),
+      rowGap: sublayout.gap === undefined ? 0 : Measurement.reifyHeight(parentBounds, sublayout.gap)
+    })
+
+    return this.renderChildrenInSlots(view, parentBounds, slots)
+  }
+
+  /** Adds a scrollbar along the right and / or bottom edge of the viewport for each direction the content overflows */
+  private addScrollbars (render: VRenderBatch<VRender>, viewport: Rectangle, contentRect: Rectangle | null, scrollOffset: { x: number, y: number }, columnSize: Size, view: VView): void {
+    if (contentRect === null) {
+      return
+    }
+    // Above everything in the viewport
+    const z = Math.max(...Object.keys(render).map(Number).filter(z => !isNaN(z))) + Bounds.DELTA_Z
+
+    const contentHeight = contentRect.top + contentRect.height - viewport.top
+    if (contentHeight > viewport.height && viewport.height > 0) {
+      const thumbSize = Math.max(1, Math.round(viewport.height * viewport.height / contentHeight))
+      const thumbStart = Math.round((viewport.height - thumbSize) * Math.min(1, scrollOffset.y / (contentHeight - viewport.height)))
+      const track = { left: viewport.left + viewport.width - 1, top: viewport.top, width: 1, height: viewport.height }
+      render[z] = this.renderScrollbar(track, columnSize, 'vertical', thumbStart, thumbSize, view)
+    }
+
+    const contentWidth = contentRect.left + contentRect.width - viewport.left
+    if (contentWidth > viewport.width && viewport.width > 0) {
+      const thumbSize = Math.max(1, Math.round(viewport.width * viewport.width / contentWidth))
+      const thumbStart = Math.round((viewport.width - thumbSize) * Math.min(1, scrollOffset.x / (contentWidth - viewport.width)))
+      const track = { left: viewport.left, top: viewport.top + viewport.height - 1, width: viewport.width, height: 1 }
+      render[z + Bounds.DELTA_Z] = this.renderScrollbar(track, columnSize, 'horizontal', thumbStart, thumbSize, view)
+    }
+  }
+
+  /** Clamps the width and height to their constraints. If either is undefined, measures the view to get its natural size */
+  private constrainSize (parentBounds: ParentBounds, siblingBounds: Rectangle | null, view: VView, bounds: BoundingBox): BoundingBox {
+    const { widthConstraint, heightConstraint, ...unconstrained } = bounds
+    let natural: Size | null = null
+    if ((widthConstraint !== undefined && bounds.width === undefined) || (heightConstraint !== undefined && bounds.height === undefined)) {
+      natural = RendererImpl.naturalSize(bounds, this.measure(parentBounds, siblingBounds, view, unconstrained))
+    }
+    return {
+      ...unconstrained,
+      width: widthConstraint === undefined ? bounds.width : RendererImpl.clamp(bounds.width ?? natural!.width, widthConstraint),
+      height: heightConstraint === undefined ? bounds.height : RendererImpl.clamp(bounds.height ?? natural!.height, heightConstraint)
+    }
+  }
+
+  /** The extent of a scroll box's children before scrolling and clipping, or `null` if it wasn't rendered (yet) or is empty */
+  getRenderedContentRect (node: VNode): Rectangle | null {
+    if (node.type === 'component' && node.node === null) {
+      return null
+    }
+    return this.cachedRenders.get(VNode.view(node).id)?.contentRect ?? null
+  }
+
+  /** Renders each child in measure mode, to get the size it takes up before its parent's layout constrains it */
+  private measureChildren (view: VBox, parentBounds: ParentBounds): Array<Rectangle | null> {
+    const rects: Array<Rectangle | null> = []
+    let lastRect: Rectangle | null = null
+    for (const child of view.children) {
+      lastRect = this.measure(parentBounds, lastRect, VNode.view(child))
+      rects.push(lastRect)
+    }
+    return rects
+  }
+
+  /**
+   * Renders the view in measure mode and returns its rect. If `unconstrainedBounds` is set, it's the view's bounds without min and max size.
+   *
+   * Measurements are reused for the same view and bounds until the next frame, because each flex or grid box measures its children
+   * and then renders them, so otherwise nested boxes would be measured exponentially many times
+   */
+  private measure (parentBounds: ParentBounds, siblingBounds: Rectangle | null, view: VView, unconstrainedBounds?: BoundingBox): Rectangle | null {
+    const measureBounds: ParentBounds = parentBounds.isMeasuring === true ? parentBounds : { ...parentBounds, isMeasuring: true }
+    // Unconstrained bounds are derived from the others, so they only need to be distinguished
+    const key = JSON.stringify([measureBounds, siblingBounds, unconstrainedBounds !== undefined])
+    let viewMeasurements = this.measurements.get(view.id)
+    if (viewMeasurements === undefined) {
+      viewMeasurements = new Map()
+      this.measurements.set(view.id, viewMeasurements)
+    }
+    if (!viewMeasurements.has(key)) {
+      const measuredView: VView = unconstrainedBounds === undefined ? view : { ...view, bounds: () => unconstrainedBounds }
+      viewMeasurements.set(key, this.renderViewImpl(measureBounds, siblingBounds, measuredView).rect)
+    }
+    // Copy because parents may extend their rect, which is a child's if they only have one
+    const rect = viewMeasurements.get(key)!
+    return rect === null ? null : { ...rect }
+  }
+
+  /** Size from the view's origin to the far edge of what it rendered */
+  private static naturalSize (bounds: BoundingBox, rect: Rectangle | null): Size {
+    if (rect === null) {
+      return { width: 0, height: 0 }
+    }
+    return {
+      width: Math.max(0, bounds.anchorX === 0 ? rect.left + rect.width - bounds.x : rect.width),
+      height: Math.max(0, bounds.anchorY === 0 ? rect.top + rect.height - bounds.y : rect.height)
+    }
+  }
+
+  private static clamp (size: number, constraint: SizeConstraint): number {
+    return Math.min(Math.max(size, constraint.min), constraint.max)
+  }
+
+  /**
+   * Renders each child into the corresponding slot, relative to the box's top-left.
+   * Children are forced to the slot's size in each defined dimension.
+   */
+  private renderChildrenInSlots (view: VBox, parentBounds: ParentBounds, slots: Array<{ left: number, top: number, width: number | undefined, height: number | undefined }>): Array<VRenderBatch<VRender>> {
+    const children: Array<VRenderBatch<VRender>> = []
+    let lastChild: VRenderBatch<VRender> | null = null
+    view.children.forEach((child, i) => {
+      const childRender = this.renderNode(view, RendererImpl.slotParentBounds(parentBounds, slots[i]), lastChild?.rect ?? null, child)
+      children.push(childRender)
+      lastChild = childRender
+    })
+    return children
+  }
+
+  /** Parent bounds of a child laid out in the slot, which is relative to the box */
+  private static slotParentBounds (parentBounds: ParentBounds, slot: { left: number, top: number, width: number | undefined, height: number | undefined }): ParentBounds {
+    const { boundingBox, sublayout, columnSize } = parentBounds
+    return {
+      boundingBox: {
+        x: getLayoutBoundingBoxLeft(boundingBox) + slot.left,
+        y: getLayoutBoundingBoxTop(boundingBox) + slot.top,
+        z: boundingBox.z,
+        anchorX: 0,
+        anchorY: 0,
+        // Percentages in undefined dimensions are still relative to the box
+        width: slot.width ?? boundingBox.width,
+        height: slot.height ?? boundingBox.height
+      },
+      sublayout: { ...sublayout, direction: 'overlap', itemSize: { width: slot.width, height: slot.height } },
+      columnSize,
+      naturalSize: parentBounds.naturalSize,
+      isMeasuring: parentBounds.isMeasuring
+    }
+  }
+
   dispose (): void {
     if (this.timer !== null) {
       this.stop()
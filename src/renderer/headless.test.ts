@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { intrinsics, useInput, useInterval, useState, useTerminalSize, VNode } from 'core'
+import { FakeClock, renderHeadless } from 'testing'
+
+const { box, hbox, text, vbox } = intrinsics
+
+describe('HeadlessRendererImpl', () => {
+  it('renders the first frame on show', () => {
+    const renderer = renderHeadless(() => vbox({}, text({}, 'hello'), hbox({}, text({}, 'a'), text({}, 'b'))), {}, { width: 8, height: 3 })
+
+    expect(renderer.lines).toEqual(['hello   ', 'ab      ', '        '])
+    expect(renderer.text).toBe('hello   \nab      \n        ')
+    renderer.dispose()
+  })
+
+  it('only renders on tick when there were updates', () => {
+    const Counter = (): VNode => {
+      const count = useState(0)
+      useInput(key => {
+        if (key.name === 'up') {
+          count.v++
+        }
+      })
+      return text({}, `count ${count.v}`)
+    }
+    const renderer = renderHeadless(Counter, {}, { width: 10, height: 1 })
+
+    expect(renderer.tick()).toBe(false)
+    renderer.sendKey({ name: 'up', sequence: '\x1b[A', ctrl: false, meta: false, shift: false })
+    expect(renderer.lines[0]).toBe('count 1   ')
+    expect(renderer.tick()).toBe(false)
+    renderer.dispose()
+  })
+
+  it('reports colors as markup and styles', () => {
+    const renderer = renderHeadless(() => hbox({}, text({}, 'ok '), text({ color: { red: 1, green: 0, blue: 0 }, bold: true }, 'FAIL')), {}, { width: 8, height: 1 })
+
+    expect(renderer.markup).toBe('ok [fg=#ff0000,style=1]FAIL[/] ')
+    expect(renderer.styles[0][0]).toEqual({ fg: null, bg: null, style: null })
+    expect(renderer.styles[0][3].fg).toBe('\x1b[38;2;255;0;0m')
+    renderer.dispose()
+  })
+
+  it('reflows the layout on resize', () => {
+    const Size = (): VNode => {
+      const { width, height } = useTerminalSize()
+      return box({ width: '100%' }, text({ width: '100%', wrapMode: 'word' }, `${width}x${height} wraps`))
+    }
+    const renderer = renderHeadless(Size, {}, { width: 20, height: 2 })
+    expect(renderer.lines).toEqual(['20x2 wraps          ', '                    '])
+
+    renderer.resize(6, 2)
+    expect(renderer.lines).toEqual(['6x2   ', 'wraps '])
+    renderer.dispose()
+  })
+
+  it('fires timers only when the fake clock advances', () => {
+    const clock = new FakeClock()
+    const Ticker = (): VNode => {
+      const ticks = useState(0)
+      useInterval(100, () => { ticks.v++ })
+      return text({}, `${ticks.v}`)
+    }
+    const renderer = renderHeadless(Ticker, {}, { width: 3, height: 1, clock })
+    expect(clock.pendingTimers).toBe(1)
+
+    clock.advance(250)
+    renderer.tick()
+    expect(renderer.lines[0]).toBe('2  ')
+
+    renderer.dispose()
+    expect(clock.pendingTimers).toBe(0)
+  })
+})
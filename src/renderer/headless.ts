@@ -0,0 +1,239 @@
+import { BoundingBox, Size } from 'core/view'
+import { CoreRenderOptions } from 'core/renderer'
+import { VComponent } from 'core/component'
+import { Key } from '@raycenity/misc-ts'
+import { MouseInput } from 'core/mouse'
+import { PasteKey } from 'core/paste'
+import { VRenderBatch } from 'renderer/common'
+import { VRender } from 'renderer/cli/VRender'
+import { CharColor, TRANSPARENT } from 'renderer/cli/CharColor'
+import { CoreTerminalRendererImpl } from 'renderer/cli/common'
+
+export interface HeadlessRenderOptions extends CoreRenderOptions {
+  /** Number of columns in the grid. Default is 80 */
+  width?: number
+  /** Number of rows in the grid. Default is 24 */
+  height?: number
+}
+
+export const DEFAULT_HEADLESS_RENDER_OPTIONS: Required<Omit<HeadlessRenderOptions, keyof CoreRenderOptions>> = {
+  width: 80,
+  height: 24
+}
+
+/** The escapes which open each color of a cell, or `null` if the cell doesn't have that color */
+export interface HeadlessCellStyle {
+  fg: string | null
+  bg: string | null
+  /** SGR escape for bold, dim, italic, underline, strikethrough and inverse */
+  style: string | null
+}
+
+/**
+ * Renders into an in-memory grid instead of a terminal, for testing.
+ *
+ * The renderer doesn't run a timer: after `show`, call `tick` to render any pending updates
+ * (or `forceRerender` to render regardless), then read the frame from `lines`, `text` and `styles`.
+ * Input is simulated via `sendKey`, `sendPaste` and `sendMouse`.
+ */
+export class HeadlessRendererImpl extends CoreTerminalRendererImpl {
+  private size: Size
+  private cells: string[][]
+  private isRunning: boolean = false
+  private readonly inputHandlers: Set<(key: Key) => void> = new Set()
+
+  constructor (root: () => VComponent, opts: HeadlessRenderOptions = {}) {
+    super(opts)
+
+    this.size = {
+      width: opts.width ?? DEFAULT_HEADLESS_RENDER_OPTIONS.width,
+      height: opts.height ?? DEFAULT_HEADLESS_RENDER_OPTIONS.height
+    }
+    this.cells = HeadlessRendererImpl.emptyCells(this.size.width, this.size.height)
+
+    this.finishInit(root)
+  }
+
+  get width (): number {
+    return this.size.width
+  }
+
+  get height (): number {
+    return this.size.height
+  }
+
+  /** Changes the grid size like a terminal resize, then renders the reflowed layout */
+  resize (width: number, height: number): void {
+    this.size = { width, height }
+    this.cells = HeadlessRendererImpl.emptyCells(width, height)
+    this.didResize()
+    this.tick()
+  }
+
+  /** The last frame, one string per row. Wide characters take up one character in the string but 2 columns in the grid */
+  get lines (): string[] {
+    return this.cells.map(row => row.map(CharColor.remove).join(''))
+  }
+
+  /** The last frame, rows separated by newlines */
+  get text (): string {
+    return this.lines.join('\n')
+  }
+
+  /** The colors of each cell in the last frame, indexed by row then column */
+  get styles (): HeadlessCellStyle[][] {
+    return this.cells.map(row => row.map(cell => {
+      const fg = CharColor.get('fg', cell)
+      const bg = CharColor.get('bg', cell)
+      const style = CharColor.get('style', cell)
+      return {
+        fg: fg === null ? null : CharColor.open(fg),
+        bg: bg === null ? null : CharColor.open(bg),
+        style: style === null ? null : CharColor.open(style)
+      }
+    }))
+  }
+
+  /** The last frame, rows separated by newlines, with color escapes like they would be written to a terminal */
+  get ansi (): string {
+    return VRender.collapse({ 0: this.cells.map(row => [...row]) }).map(line => line.join('')).join('\n')
+  }
+
+  /**
+   * The last frame, rows separated by newlines, with colors written as readable markup:
+   * `[fg=#ff0000,style=1]FAIL[/]`. Literal `[` and `\` are escaped with `\`.
+   */
+  get markup (): string {
+    return this.cells.map(row => {
+      let line = ''
+      let prevStyle = ''
+      for (const cell of row) {
+        const style = HeadlessRendererImpl.markupStyle(cell)
+        if (style !== prevStyle) {
+          if (prevStyle !== '') {
+            line += '[/]'
+          }
+          if (style !== '') {
+            line += `[${style}]`
+          }
+          prevStyle = style
+        }
+        line += CharColor.remove(cell).replace(/[[\\]/g, '\\$&')
+      }
+      if (prevStyle !== '') {
+        line += '[/]'
+      }
+      return line
+    }).join('\n')
+  }
+
+  /** Renders if there were any updates since the last frame, like one tick of the timer in other renderers. Returns whether it rendered */
+  tick (): boolean {
+    return this.rerenderIfNecessary()
+  }
+
+  override start (): void {
+    if (this.isRunning) {
+      throw new Error('Renderer is already running')
+    }
+    this.isRunning = true
+  }
+
+  override stop (): void {
+    if (!this.isRunning) {
+      throw new Error('Renderer is not running')
+    }
+    this.isRunning = false
+  }
+
+  protected override clear (): void {
+    this.cells = HeadlessRendererImpl.emptyCells(this.width, this.height)
+  }
+
+  protected override writeRender (render: VRenderBatch<VRender>): void {
+    const flattened = VRender.flatten(render)
+    for (let y = 0; y < Math.min(this.height, flattened.length); y++) {
+      const line = flattened[y]
+      for (let x = 0; x < Math.min(this.width, line.length); x++) {
+        if (line[x] !== TRANSPARENT) {
+          this.cells[y][x] = line[x]
+        }
+      }
+    }
+  }
+
+  protected override getRootDimensions (): {
+    boundingBox: BoundingBox
+    columnSize?: Size
+  } {
+    return {
+      boundingBox: {
+        x: 0,
+        y: 0,
+        z: 0,
+        anchorX: 0,
+        anchorY: 0,
+        width: this.width,
+        height: this.height
+      }
+    }
+  }
+
+  /** Delivers the key to every `useInput` handler, then renders any updates it caused */
+  sendKey (key: Key): void {
+    // Copy because handlers may be added or removed while handling
+    for (const handler of [...this.inputHandlers]) {
+      handler(key)
+    }
+    this.tick()
+  }
+
+  /** Delivers the text like a paste (one `PasteKey`) to every `useInput` handler, then renders any updates it caused */
+  sendPaste (text: string): void {
+    this.sendKey(PasteKey(text))
+  }
+
+  override useInput (handler: (key: Key) => void): () => void {
+    this.inputHandlers.add(handler)
+    return () => {
+      this.inputHandlers.delete(handler)
+    }
+  }
+
+  /** Delivers the mouse input (in cells) to every `useMouse` handler, then renders any updates it caused */
+  sendMouse (mouse: MouseInput): void {
+    this.emitMouse(mouse)
+    this.tick()
+  }
+
+  protected override setMouseTracking (): void {
+    // Mouse input is only simulated
+  }
+
+  private static markupStyle (cell: string): string {
+    const attrs: string[] = []
+    for (const type of CharColor.TYPES) {
+      const color = CharColor.get(type, cell)
+      if (color !== null) {
+        attrs.push(`${type}=${HeadlessRendererImpl.describeEscape(CharColor.open(color))}`)
+      }
+    }
+    return attrs.join(',')
+  }
+
+  /** Converts true-color escapes into hex, and strips the rest to their SGR parameters */
+  private static describeEscape (escape: string): string {
+    // eslint-disable-next-line no-control-regex
+    const trueColor = /^\x1b\[[34]8;2;(\d+);(\d+);(\d+)m$/.exec(escape)
+    if (trueColor !== null) {
+      return `#${trueColor.slice(1).map(component => Number(component).toString(16).padStart(2, '0')).join('')}`
+    } else {
+      // eslint-disable-next-line no-control-regex
+      return escape.replace(/\x1b\[|m/g, '')
+    }
+  }
+
+  private static emptyCells (width: number, height: number): string[][] {
+    return Array(height).fill(null).map(() => Array(width).fill(' '))
+  }
+}
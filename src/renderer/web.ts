@@ -1,9 +1,11 @@
-import { BorderStyle, BoundingBox, Color, Rectangle, Size } from 'core/view'
+import { BorderStyle, BoundingBox, Color, Rectangle, Size, TextFormat, TextLayout, TextSpan } from 'core/view'
 import { CoreRenderOptions, DEFAULT_COLUMN_SIZE } from 'core/renderer'
 import { CoreAssetCacher, RendererImpl, VRenderBatch } from 'renderer/common'
-import { Key, Strings } from '@raycenity/misc-ts'
-import type { Application, DisplayObject, IApplicationOptions, Sprite, Texture } from 'pixi.js'
+import { Key } from '@raycenity/misc-ts'
+import type { Application, DisplayObject, IApplicationOptions, InteractionEvent, Sprite, Texture } from 'pixi.js'
 import { VComponent } from 'core/component'
+import { MouseButton, MouseInput, MouseInputType } from 'core/mouse'
+import { PasteKey } from 'core/paste'
 
 declare global {
   const PIXI: typeof import('pixi.js')
@@ -11,6 +13,9 @@ declare global {
 
 type VRender = DisplayObject
 
+const SCROLLBAR_TRACK_COLOR = 0xe0e0e0
+const SCROLLBAR_THUMB_COLOR = 0x808080
+
 export interface BrowserRenderOptions extends CoreRenderOptions, IApplicationOptions {
   container?: HTMLElement
   em?: number
@@ -26,6 +31,7 @@ export class BrowserRendererImpl extends RendererImpl<VRender, AssetCacher> {
   private readonly canvas: Application
 
   private readonly em: number | null
+  private readonly resizeObserver: ResizeObserver | null
 
   constructor (root: () => VComponent, opts: BrowserRenderOptions = {}) {
     super(new AssetCacher(), opts)
@@ -49,6 +55,20 @@ export class BrowserRendererImpl extends RendererImpl<VRender, AssetCacher> {
     }
     this.em = opts.em ?? null
 
+    // Resize with the container, or if the view was provided, track its size
+    if (typeof ResizeObserver === 'undefined') {
+      this.resizeObserver = null
+    } else {
+      const container = opts.view === undefined ? opts.container ?? document.body : null
+      this.resizeObserver = new ResizeObserver(() => {
+        if (container !== null) {
+          this.canvas.renderer.resize(container.clientWidth, container.clientHeight)
+        }
+        this.didResize()
+      })
+      this.resizeObserver.observe(container ?? this.canvas.view)
+    }
+
     this.finishInit(root)
   }
 
@@ -102,31 +122,83 @@ export class BrowserRendererImpl extends RendererImpl<VRender, AssetCacher> {
     return render
   }
 
-  protected override renderText (bounds: BoundingBox, columnSize: Size, wrapMode: 'word' | 'char' | 'clip' | undefined, color: Color | null, text: string): VRender {
-    if (bounds.width !== undefined) {
-      if (wrapMode === 'clip') {
-        // Remove clipped characters
-        text = text.split('\n').map(line => Strings.truncateEnd(line, bounds.width!)).join('\n')
-      } else if (wrapMode === undefined) {
-        // Warn if characters go past end
-        if (text.split('\n').some(line => Strings.width(line) > bounds.width!)) {
-          console.warn(`wrap is undefined but text goes path width (text = ${text})`)
+  /**
+   * Renders a container of `PIXI.Text` runs, each with its span's style, placed in columns by `TextLayout` like the terminal.
+   * Backgrounds, underlines and strikethroughs are drawn with graphics
+   */
+  protected override renderText (bounds: BoundingBox, columnSize: Size, spans: readonly TextSpan[], format: TextFormat): VRender {
+    const lineHeight = this.em ?? columnSize.height
+    const lines = TextLayout.layout(spans, bounds.width, bounds.height, format)
+
+    // Join contiguous characters of the same span on the same line
+    const runs: Array<{ text: string, span: TextSpan, x: number, y: number, width: number }> = []
+    for (const line of lines) {
+      let lastRun: typeof runs[number] | null = null
+      for (const cell of line.cells) {
+        if (lastRun !== null && lastRun.span === spans[cell.span] && lastRun.x + lastRun.width === cell.x) {
+          lastRun.text += cell.text
+          lastRun.width += cell.width
+        } else {
+          lastRun = { text: cell.text, span: spans[cell.span], x: cell.x, y: line.y, width: cell.width }
+          runs.push(lastRun)
         }
       }
     }
 
-    const render = new PIXI.Text(text, {
-      fontFamily: 'monospace',
-      fontSize: this.em ?? columnSize.height,
-      fill: color === null ? 0x000000 : color2Number(color),
-      align: 'left',
-      wordWrap: wrapMode === 'word',
-      wordWrapWidth: wrapMode === 'word' ? bounds.width : undefined,
-      lineHeight: this.em ?? columnSize.height
-    })
+    const render = new PIXI.Container()
+    for (const run of runs) {
+      let fill = run.span.color ?? Color('black')
+      let background = run.span.background
+      if (run.span.inverse === true) {
+        background = fill
+        fill = run.span.background ?? Color('white')
+      }
+      const left = run.x * columnSize.width
+      const top = run.y * lineHeight
+      const runWidth = run.width * columnSize.width
+
+      if (background !== undefined) {
+        const pixiBackground = new PIXI.Graphics()
+        pixiBackground.beginFill(color2Number(background))
+        pixiBackground.drawRect(left, top, runWidth, lineHeight)
+        render.addChild(pixiBackground)
+      }
 
-    transformSpriteRender(render, bounds, columnSize)
+      const pixiText = new PIXI.Text(run.text, {
+        fontFamily: 'monospace',
+        fontSize: this.em ?? columnSize.height,
+        fontWeight: run.span.bold === true ? 'bold' : 'normal',
+        fontStyle: run.span.italic === true ? 'italic' : 'normal',
+        fill: color2Number(fill),
+        lineHeight
+      })
+      pixiText.position.set(left, top)
+      if (run.span.dim === true) {
+        pixiText.alpha = 0.5
+      }
+      render.addChild(pixiText)
+
+      if (run.span.underline === true || run.span.strikethrough === true) {
+        const pixiLines = new PIXI.Graphics()
+        pixiLines.lineStyle(1, color2Number(fill))
+        if (run.span.underline === true) {
+          pixiLines.moveTo(left, top + lineHeight - 1)
+          pixiLines.lineTo(left + runWidth, top + lineHeight - 1)
+        }
+        if (run.span.strikethrough === true) {
+          pixiLines.moveTo(left, top + (lineHeight / 2))
+          pixiLines.lineTo(left + runWidth, top + (lineHeight / 2))
+        }
+        render.addChild(pixiLines)
+      }
+    }
 
+    const renderWidth = bounds.width ?? Math.max(0, ...runs.map(run => run.x + run.width))
+    const renderHeight = bounds.height ?? lines.length
+    render.position.set(
+      (bounds.x - (bounds.anchorX * renderWidth)) * columnSize.width,
+      (bounds.y - (bounds.anchorY * renderHeight)) * columnSize.height
+    )
     return render
   }
 
@@ -214,6 +286,29 @@ export class BrowserRendererImpl extends RendererImpl<VRender, AssetCacher> {
     return pixiColor
   }
 
+  protected override renderScrollbar (track: Rectangle, columnSize: Size, orientation: 'horizontal' | 'vertical', thumbStart: number, thumbSize: number): VRender {
+    const scrollbar = new PIXI.Graphics()
+    const thumb = orientation === 'vertical'
+      ? { ...track, top: track.top + thumbStart, height: thumbSize }
+      : { ...track, left: track.left + thumbStart, width: thumbSize }
+    scrollbar.beginFill(SCROLLBAR_TRACK_COLOR)
+    scrollbar.drawRect(
+      track.left * columnSize.width,
+      track.top * columnSize.height,
+      track.width * columnSize.width,
+      track.height * columnSize.height
+    )
+    scrollbar.beginFill(SCROLLBAR_THUMB_COLOR)
+    scrollbar.drawRoundedRect(
+      thumb.left * columnSize.width,
+      thumb.top * columnSize.height,
+      thumb.width * columnSize.width,
+      thumb.height * columnSize.height,
+      Math.min(columnSize.width, columnSize.height) / 2
+    )
+    return scrollbar
+  }
+
   protected override renderImage (bounds: BoundingBox, columnSize: Size, path: string): { render: VRender, size: Size } {
     const image = this.assets.getImage(path)
     const render = new PIXI.Sprite(image)
@@ -243,13 +338,110 @@ export class BrowserRendererImpl extends RendererImpl<VRender, AssetCacher> {
     }
   }
 
+  /** `render` is null from `renderVectorImage`, which isn't implemented yet */
+  protected override disposeRender (render: VRender | null): void {
+    // Textures are cached assets so they're kept
+    render?.destroy({ children: true })
+  }
+
   override useInput (handler: (key: Key) => void): () => void {
     function listener (key: KeyboardEvent): void {
       handler(Key.fromKeyboardEvent(key))
     }
+    function pasteListener (event: ClipboardEvent): void {
+      const text = event.clipboardData?.getData('text/plain') ?? ''
+      if (text !== '') {
+        event.preventDefault()
+        handler(PasteKey(text.replace(/\r\n?/g, '\n')))
+      }
+    }
     document.body.addEventListener('keypress', listener)
+    document.addEventListener('paste', pasteListener)
     return () => {
       document.body.removeEventListener('keypress', listener)
+      document.removeEventListener('paste', pasteListener)
+    }
+  }
+
+  protected override setMouseTracking (enabled: boolean): void {
+    const stage = this.canvas.stage
+    if (enabled) {
+      // Make the whole stage hit, not just the rendered objects
+      stage.interactive = true
+      stage.hitArea = this.canvas.screen
+      stage.on('pointerdown', this.onPointerDown)
+      stage.on('pointerup', this.onPointerUp)
+      stage.on('pointerupoutside', this.onPointerUp)
+      stage.on('pointermove', this.onPointerMove)
+      this.canvas.view.addEventListener('wheel', this.onWheel)
+    } else {
+      stage.off('pointerdown', this.onPointerDown)
+      stage.off('pointerup', this.onPointerUp)
+      stage.off('pointerupoutside', this.onPointerUp)
+      stage.off('pointermove', this.onPointerMove)
+      this.canvas.view.removeEventListener('wheel', this.onWheel)
+      stage.interactive = false
+    }
+  }
+
+  private readonly onPointerDown = (event: InteractionEvent): void => {
+    this.emitPointer('press', event)
+  }
+
+  private readonly onPointerUp = (event: InteractionEvent): void => {
+    this.emitPointer('release', event)
+  }
+
+  private readonly onPointerMove = (event: InteractionEvent): void => {
+    this.emitPointer(event.data.buttons !== 0 ? 'drag' : 'hover', event)
+  }
+
+  private readonly onWheel = (event: WheelEvent): void => {
+    if (event.deltaY === 0) {
+      return
+    }
+    const bounds = this.canvas.view.getBoundingClientRect()
+    this.emitMouse({
+      ...this.pixelToCell(event.clientX - bounds.left, event.clientY - bounds.top),
+      type: 'scroll',
+      button: 'none',
+      scrollY: Math.sign(event.deltaY),
+      ctrl: event.ctrlKey,
+      meta: event.altKey || event.metaKey,
+      shift: event.shiftKey
+    })
+  }
+
+  private emitPointer (type: MouseInputType, event: InteractionEvent): void {
+    const originalEvent = event.data.originalEvent as PointerEvent
+    let button: MouseButton
+    if (type === 'hover') {
+      button = 'none'
+    } else if (type === 'drag') {
+      // buttons is a bitmask: 1 = left, 2 = right, 4 = middle
+      const buttons = event.data.buttons
+      button = (buttons & 1) !== 0 ? 'left' : (buttons & 2) !== 0 ? 'right' : 'middle'
+    } else {
+      // button is an index: 0 = left, 1 = middle, 2 = right
+      button = (['left', 'middle', 'right'] as const)[event.data.button] ?? 'none'
+    }
+    this.emitMouse({
+      ...this.pixelToCell(event.data.global.x, event.data.global.y),
+      type,
+      button,
+      scrollY: 0,
+      ctrl: originalEvent.ctrlKey,
+      meta: originalEvent.altKey || originalEvent.metaKey,
+      shift: originalEvent.shiftKey
+    })
+  }
+
+  /** Converts a position in pixels to columns and rows, which may be fractional */
+  private pixelToCell (x: number, y: number): Pick<MouseInput, 'x' | 'y'> {
+    const columnSize = this.getRootDimensions().columnSize ?? DEFAULT_COLUMN_SIZE
+    return {
+      x: x / columnSize.width,
+      y: y / columnSize.height
     }
   }
 
@@ -265,6 +457,8 @@ export class BrowserRendererImpl extends RendererImpl<VRender, AssetCacher> {
 
   override dispose (): void {
     super.dispose()
+    this.setMouseTracking(false)
+    this.resizeObserver?.disconnect()
     this.canvas.destroy()
   }
 }
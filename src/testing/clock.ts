@@ -0,0 +1,90 @@
+import { Clock } from 'core/clock'
+
+interface FakeTimer {
+  readonly id: number
+  time: number
+  readonly interval: number | null
+  readonly handler: () => void
+}
+
+/**
+ * Clock which only advances when told to, so timer hooks like `useDelay` and `useInterval` fire deterministically.
+ * Pass it to the renderer via the `clock` render option.
+ */
+export class FakeClock implements Clock {
+  private time: number
+  private nextTimerId: number = 0
+  private readonly timers: FakeTimer[] = []
+
+  constructor (startTime: number = 0) {
+    this.time = startTime
+  }
+
+  /** Number of timeouts and intervals which haven't been cancelled or (for timeouts) fired */
+  get pendingTimers (): number {
+    return this.timers.length
+  }
+
+  now (): number {
+    return this.time
+  }
+
+  setTimeout (handler: () => void, millis: number): () => void {
+    return this.addTimer(handler, millis, null)
+  }
+
+  setInterval (handler: () => void, millis: number): () => void {
+    // Like real intervals, intervals of 0 still wait a bit so they don't loop forever
+    return this.addTimer(handler, millis, Math.max(1, millis))
+  }
+
+  /** Moves time forward by `millis`, firing every timer due in between in order */
+  advance (millis: number): void {
+    const endTime = this.time + millis
+    for (;;) {
+      const timer = this.nextDueTimer(endTime)
+      if (timer === null) {
+        break
+      }
+      this.time = timer.time
+      if (timer.interval !== null) {
+        timer.time += timer.interval
+      } else {
+        this.timers.splice(this.timers.indexOf(timer), 1)
+      }
+      timer.handler()
+    }
+    this.time = endTime
+  }
+
+  /** Moves time forward to the next timer and fires it (and any others due at the same time). Returns false if there are no timers */
+  advanceToNextTimer (): boolean {
+    const timer = this.nextDueTimer(Infinity)
+    if (timer === null) {
+      return false
+    }
+    this.advance(timer.time - this.time)
+    return true
+  }
+
+  private addTimer (handler: () => void, millis: number, interval: number | null): () => void {
+    const timer: FakeTimer = { id: this.nextTimerId++, time: this.time + Math.max(0, millis), interval, handler }
+    this.timers.push(timer)
+    return () => {
+      const index = this.timers.indexOf(timer)
+      if (index !== -1) {
+        this.timers.splice(index, 1)
+      }
+    }
+  }
+
+  private nextDueTimer (endTime: number): FakeTimer | null {
+    let next: FakeTimer | null = null
+    for (const timer of this.timers) {
+      if (timer.time <= endTime && (next === null || timer.time < next.time || (timer.time === next.time && timer.id < next.id))) {
+        next = timer
+      }
+    }
+    return next
+  }
+}
@@ -0,0 +1,22 @@
+import { VNode } from 'core'
+import { VComponent } from 'core/component'
+import { HeadlessRendererImpl, HeadlessRenderOptions } from 'renderer/headless'
+
+export type { HeadlessRenderOptions, HeadlessCellStyle } from 'renderer/headless'
+export { HeadlessRendererImpl, DEFAULT_HEADLESS_RENDER_OPTIONS } from 'renderer/headless'
+export type { RenderStringColors, RenderToStringOptions, SnapshotMatcherContext, SnapshotMatcherResult } from 'testing/snapshot'
+export { renderToString, frameToString, toMatchRenderSnapshot, diffRenders } from 'testing/snapshot'
+export type { InputEvent } from 'testing/input'
+export { parseKeys, textToKeys, sendKeys, replay } from 'testing/input'
+export { FakeClock } from 'testing/clock'
+export { HeadlessDevolveUI, HeadlessPromptDevolveUI } from 'testing/ui'
+
+/**
+ * Creates a headless renderer for the given root component and props, and shows it so the first frame is rendered.
+ * Call `tick` on the returned renderer to render subsequent updates.
+ */
+export function renderHeadless<Props> (RootComponent: (props: Props) => VNode, props: Props, opts?: HeadlessRenderOptions): HeadlessRendererImpl {
+  const renderer = new HeadlessRendererImpl(() => VComponent('RootComponent', props, RootComponent), opts)
+  renderer.show()
+  return renderer
+}
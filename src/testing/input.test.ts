@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { intrinsics, useDelay, useInput, useState, VNode } from 'core'
+import { FakeClock, parseKeys, renderHeadless, replay, textToKeys } from 'testing'
+
+describe('parseKeys', () => {
+  it('parses named keys, characters and modifiers', () => {
+    expect(parseKeys('enter ctrl+c shift+tab A ctrl++')).toEqual([
+      { name: 'return', sequence: '\r', ctrl: false, meta: false, shift: false },
+      { name: 'c', sequence: '\x03', ctrl: true, meta: false, shift: false },
+      { name: 'tab', sequence: '\t', ctrl: false, meta: false, shift: true },
+      { name: 'a', sequence: 'A', ctrl: false, meta: false, shift: true },
+      { name: '+', sequence: '+', ctrl: true, meta: false, shift: false }
+    ])
+  })
+
+  it('throws on unknown keys and modifiers', () => {
+    expect(() => parseKeys('hyper+a')).toThrow('unknown key modifier: hyper in hyper+a')
+    expect(() => parseKeys('foo')).toThrow('unknown key: foo in foo')
+  })
+
+  it('types text with spaces', () => {
+    expect(textToKeys('a b').map(key => key.name)).toEqual(['a', 'space', 'b'])
+  })
+})
+
+describe('replay', () => {
+  it('sends keys, text and pastes, and waits on the clock', () => {
+    const clock = new FakeClock()
+    const renderer = renderHeadless(() => {
+      const log = useState('')
+      const isLate = useState(false)
+      useDelay(1000, () => { isLate.v = true }, 'on-create')
+      useInput(key => { log.v += key.name === 'paste' ? `[${key.sequence ?? ''}]` : key.sequence ?? '' })
+      return intrinsics.text({}, `${isLate.v ? 'late ' : ''}${log.v}`)
+    }, {}, { width: 20, height: 1, clock })
+
+    replay(renderer, ['x', { text: 'yz' }, { paste: 'p' }, { wait: 999 }])
+    expect(renderer.lines[0].trimEnd()).toBe('xyz[p]')
+    replay(renderer, [{ wait: 1 }])
+    expect(renderer.lines[0].trimEnd()).toBe('late xyz[p]')
+    renderer.dispose()
+  })
+
+  it('only waits with a fake clock', () => {
+    const renderer = renderHeadless((): VNode => intrinsics.text({}, ''), {}, { width: 1, height: 1 })
+
+    expect(() => replay(renderer, [{ wait: 1 }])).toThrow('can only replay waits if the renderer has a FakeClock')
+    renderer.dispose()
+  })
+})
@@ -0,0 +1,129 @@
+import { Key } from '@raycenity/misc-ts'
+import { HeadlessRendererImpl } from 'renderer/headless'
+import { FakeClock } from 'testing/clock'
+
+/** An event in `replay`: a key, a key sequence (see `parseKeys`), typed text, pasted text, or a wait on the renderer's {@link FakeClock} */
+export type InputEvent =
+  Key |
+  string |
+  { text: string } |
+  { paste: string } |
+  { wait: number }
+
+/** Name and sequence of named keys, as the terminal reports them */
+const NAMED_KEYS: Record<string, { name: string, sequence: string }> = {
+  enter: { name: 'return', sequence: '\r' },
+  return: { name: 'return', sequence: '\r' },
+  tab: { name: 'tab', sequence: '\t' },
+  space: { name: 'space', sequence: ' ' },
+  backspace: { name: 'backspace', sequence: '\x7f' },
+  delete: { name: 'delete', sequence: '\x1b[3~' },
+  escape: { name: 'escape', sequence: '\x1b' },
+  esc: { name: 'escape', sequence: '\x1b' },
+  up: { name: 'up', sequence: '\x1b[A' },
+  down: { name: 'down', sequence: '\x1b[B' },
+  right: { name: 'right', sequence: '\x1b[C' },
+  left: { name: 'left', sequence: '\x1b[D' },
+  home: { name: 'home', sequence: '\x1b[H' },
+  end: { name: 'end', sequence: '\x1b[F' },
+  pageup: { name: 'pageup', sequence: '\x1b[5~' },
+  pagedown: { name: 'pagedown', sequence: '\x1b[6~' }
+}
+
+/**
+ * Parses a space-separated key sequence, e.g. `"down down enter"` or `"ctrl+c"`.
+ *
+ * Each key is a named key (`enter`, `tab`, `up`, `pagedown`, ...) or a single character,
+ * optionally prefixed with `ctrl+`, `meta+` and `shift+`. Uppercase letters are shifted.
+ */
+export function parseKeys (sequence: string): Key[] {
+  return sequence.split(' ').filter(token => token !== '').map(parseKey)
+}
+
+/** Converts text into the keys which type it */
+export function textToKeys (text: string): Key[] {
+  return [...text].map(char => char === ' ' ? parseKey('space') : charKey(char, false, false, false))
+}
+
+function parseKey (token: string): Key {
+  const parts = token.split('+')
+  // 'ctrl++' and '+' are the plus key
+  let name = parts.pop()!
+  if (name === '' && parts.length > 0) {
+    parts.pop()
+    name = '+'
+  }
+  let ctrl = false
+  let meta = false
+  let shift = false
+  for (const modifier of parts) {
+    switch (modifier.toLowerCase()) {
+      case 'ctrl':
+        ctrl = true
+        break
+      case 'meta':
+      case 'alt':
+        meta = true
+        break
+      case 'shift':
+        shift = true
+        break
+      default:
+        throw new Error(`unknown key modifier: ${modifier} in ${token}`)
+    }
+  }
+
+  const namedKey = NAMED_KEYS[name.toLowerCase()]
+  if (namedKey !== undefined && name.length > 1) {
+    return { ...namedKey, ctrl, meta, shift }
+  } else if ([...name].length === 1) {
+    return charKey(name, ctrl, meta, shift)
+  } else {
+    throw new Error(`unknown key: ${name} in ${token}`)
+  }
+}
+
+function charKey (char: string, ctrl: boolean, meta: boolean, shift: boolean): Key {
+  const isUppercase = char !== char.toLowerCase()
+  const name = char.toLowerCase()
+  let sequence = shift ? char.toUpperCase() : char
+  if (ctrl && /^[a-z]$/.test(name)) {
+    sequence = String.fromCharCode(name.charCodeAt(0) - 96)
+  }
+  if (meta) {
+    sequence = `\x1b${sequence}`
+  }
+  return { name, sequence, ctrl, meta, shift: shift || isUppercase }
+}
+
+/** Sends each key in the sequence (see `parseKeys`) to the renderer */
+export function sendKeys (renderer: HeadlessRendererImpl, sequence: string | Key[]): void {
+  const keys = typeof sequence === 'string' ? parseKeys(sequence) : sequence
+  for (const key of keys) {
+    renderer.sendKey(key)
+  }
+}
+
+/**
+ * Sends the events to the renderer in order. Waits advance the renderer's clock,
+ * which must be a {@link FakeClock}, and render any updates caused by timers.
+ */
+export function replay (renderer: HeadlessRendererImpl, events: InputEvent[]): void {
+  for (const event of events) {
+    if (typeof event === 'string') {
+      sendKeys(renderer, event)
+    } else if ('text' in event) {
+      sendKeys(renderer, textToKeys(event.text))
+    } else if ('paste' in event) {
+      renderer.sendPaste(event.paste)
+    } else if ('wait' in event) {
+      if (!(renderer.clock instanceof FakeClock)) {
+        throw new Error('can only replay waits if the renderer has a FakeClock')
+      }
+      renderer.clock.advance(event.wait)
+      renderer.tick()
+    } else {
+      renderer.sendKey(event)
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { intrinsics, VNode } from 'core'
+import { diffRenders, renderToString, toMatchRenderSnapshot } from 'testing'
+
+const { hbox, text } = intrinsics
+
+const Status = ({ status }: { status: string }): VNode =>
+  hbox({}, text({}, 'ok '), text({ color: { red: 1, green: 0, blue: 0 } }, status))
+
+describe('renderToString', () => {
+  it('encodes colors as requested and trims rows', () => {
+    const opts = { width: 10, height: 2 }
+
+    expect(renderToString(Status, { status: 'FAIL' }, opts)).toBe('ok FAIL\n')
+    expect(renderToString(Status, { status: 'FAIL' }, { ...opts, colors: 'markup' })).toBe('ok [fg=#ff0000]FAIL[/]\n')
+    expect(renderToString(Status, { status: 'FAIL' }, { ...opts, colors: 'ansi' })).toBe('ok \x1b[38;2;255;0;0mFAIL\x1b[39m\n')
+  })
+})
+
+describe('diffRenders', () => {
+  it('marks the cells which changed in each differing row', () => {
+    expect(diffRenders('same\nabcd', 'same\nabXd\nnew')).toBe([
+      'row 1:',
+      '  - abcd',
+      '  + abXd',
+      '      ^',
+      'row 2:',
+      '  - (missing)',
+      '  + new',
+      '    ^^^'
+    ].join('\n'))
+  })
+
+  it('places markers by cell, so wide characters and escapes don\'t shift them', () => {
+    const diff = diffRenders('日本 x', '\x1b[1m日本\x1b[22m y')
+
+    expect(diff.split('\n')[3]).toBe('         ^')
+  })
+
+  it('falls back to the whole renders if no cell differs', () => {
+    expect(diffRenders('a', 'a\n')).toBe('  - "a"\n  + "a\\n"')
+  })
+})
+
+describe('toMatchRenderSnapshot', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'devolve-ui-snapshot-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('writes missing snapshots, then compares against them', () => {
+    const context = { testPath: join(dir, 'app.test.ts') }
+
+    expect(toMatchRenderSnapshot.call(context, 'hello', 'greeting').pass).toBe(true)
+    expect(readFileSync(join(dir, '__snapshots__', 'greeting.snap'), 'utf8')).toBe('hello\n')
+    expect(toMatchRenderSnapshot.call(context, 'hello', 'greeting').pass).toBe(true)
+
+    const mismatch = toMatchRenderSnapshot.call(context, 'hallo', 'greeting')
+    expect(mismatch.pass).toBe(false)
+    expect(mismatch.message()).toContain('  - hello\n  + hallo\n     ^')
+  })
+
+  it('overwrites snapshots when updating, and fails on missing ones in CI', () => {
+    const path = join(dir, 'frame.txt')
+
+    expect(toMatchRenderSnapshot.call({ snapshotState: { _updateSnapshot: 'none' } }, 'a', path).pass).toBe(false)
+    toMatchRenderSnapshot.call({}, 'a', path)
+    expect(toMatchRenderSnapshot.call({ snapshotState: { _updateSnapshot: 'all' } }, 'b', path).pass).toBe(true)
+    expect(readFileSync(path, 'utf8')).toBe('b\n')
+  })
+})
@@ -0,0 +1,170 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname, isAbsolute, join, resolve } from 'path'
+import { TextLayout, VNode } from 'core'
+import { VComponent } from 'core/component'
+import { HeadlessRendererImpl, HeadlessRenderOptions } from 'renderer/headless'
+
+/**
+ * How `renderToString` encodes colors:
+ *
+ * - `none`: plain text, colors are dropped
+ * - `ansi`: color escapes like they would be written to a terminal
+ * - `markup`: readable markup, e.g. `[fg=#ff0000]FAIL[/]`
+ */
+export type RenderStringColors = 'ansi' | 'none' | 'markup'
+
+export interface RenderToStringOptions extends HeadlessRenderOptions {
+  /** Default is 'none' */
+  colors?: RenderStringColors
+}
+
+/**
+ * Renders one frame of the root component with the given props and returns it as a string,
+ * rows separated by newlines. Trailing whitespace is trimmed from each row.
+ */
+export function renderToString<Props> (RootComponent: (props: Props) => VNode, props: Props, opts: RenderToStringOptions = {}): string {
+  const { colors, ...headlessOpts } = opts
+  const renderer = new HeadlessRendererImpl(() => VComponent('RootComponent', props, RootComponent), headlessOpts)
+  try {
+    renderer.forceRerender()
+    return frameToString(renderer, colors ?? 'none')
+  } finally {
+    renderer.dispose()
+  }
+}
+
+/** Returns the renderer's last frame encoded like `renderToString` */
+export function frameToString (renderer: HeadlessRendererImpl, colors: RenderStringColors): string {
+  let frame: string
+  switch (colors) {
+    case 'none':
+      frame = renderer.text
+      break
+    case 'ansi':
+      frame = renderer.ansi
+      break
+    case 'markup':
+      frame = renderer.markup
+      break
+  }
+  return frame.split('\n').map(line => line.trimEnd()).join('\n')
+}
+
+/** Subset of jest and vitest's `this` in custom matchers */
+export interface SnapshotMatcherContext {
+  testPath?: string
+  snapshotState?: {
+    _updateSnapshot?: 'all' | 'new' | 'none'
+  }
+}
+
+export interface SnapshotMatcherResult {
+  pass: boolean
+  message: () => string
+}
+
+/**
+ * Compares `received` with the snapshot stored at `snapshotPath`, writing the snapshot if it doesn't exist.
+ *
+ * `snapshotPath` is relative to the test file's `__snapshots__` directory if known, otherwise the working directory,
+ * and `.snap` is added if it has no extension.
+ * Snapshots are overwritten when jest or vitest are run with `-u`, and missing snapshots fail in `--ci`.
+ *
+ * Usage:
+ * ```typescript
+ * expect.extend({ toMatchRenderSnapshot })
+ *
+ * expect(renderToString(App, props, { colors: 'markup' })).toMatchRenderSnapshot('app-initial')
+ * ```
+ */
+export function toMatchRenderSnapshot (this: SnapshotMatcherContext | undefined, received: string, snapshotPath: string): SnapshotMatcherResult {
+  const path = resolveSnapshotPath(snapshotPath, this?.testPath)
+  const updateMode = this?.snapshotState?._updateSnapshot ?? 'new'
+
+  if (!existsSync(path) || updateMode === 'all') {
+    if (updateMode === 'none') {
+      return {
+        pass: false,
+        message: () => `render snapshot ${path} doesn't exist, and new snapshots aren't written in CI`
+      }
+    }
+    mkdirSync(dirname(path), { recursive: true })
+    writeFileSync(path, `${received}\n`)
+    return {
+      pass: true,
+      message: () => `wrote render snapshot ${path}`
+    }
+  }
+
+  const expected = readFileSync(path, 'utf8').replace(/\n$/, '')
+  if (expected === received) {
+    return {
+      pass: true,
+      message: () => `expected render not to match snapshot ${path}`
+    }
+  } else {
+    return {
+      pass: false,
+      message: () => `render doesn't match snapshot ${path}\n${diffRenders(expected, received)}`
+    }
+  }
+}
+
+/**
+ * Returns a readable cell-level diff of two renders: each differing row is printed as the expected and received versions,
+ * with `^` under the cells which changed. Wide characters take 2 cells, and color escapes take none.
+ */
+export function diffRenders (expected: string, received: string): string {
+  const expectedLines = expected.split('\n')
+  const receivedLines = received.split('\n')
+  const result: string[] = []
+  for (let y = 0; y < Math.max(expectedLines.length, receivedLines.length); y++) {
+    const expectedCells = rowCells(expectedLines[y] ?? '')
+    const receivedCells = rowCells(receivedLines[y] ?? '')
+    let markers = ''
+    for (let x = 0; x < Math.max(expectedCells.length, receivedCells.length); x++) {
+      markers += expectedCells[x] === receivedCells[x] ? ' ' : '^'
+    }
+    if (markers.includes('^')) {
+      result.push(
+        `row ${y}:`,
+        `  - ${y < expectedLines.length ? expectedLines[y] : '(missing)'}`,
+        `  + ${y < receivedLines.length ? receivedLines[y] : '(missing)'}`,
+        `    ${markers.trimEnd()}`
+      )
+    }
+  }
+  if (result.length === 0 && expected !== received) {
+    // Only whitespace, colors or line count differ
+    result.push(`  - ${JSON.stringify(expected)}`, `  + ${JSON.stringify(received)}`)
+  }
+  return result.join('\n')
+}
+
+/** Splits the row into the cells it's displayed in, without escapes. Wide graphemes are followed by empty cells */
+function rowCells (row: string): string[] {
+  const cells: string[] = []
+  // eslint-disable-next-line no-control-regex
+  for (const grapheme of TextLayout.graphemes(row.replace(/\x1b\[[0-9;:]*[A-Za-z]/g, ''))) {
+    const width = TextLayout.width(grapheme)
+    if (width === 0 && cells.length > 0) {
+      cells[cells.length - 1] += grapheme
+    } else {
+      cells.push(grapheme, ...new Array<string>(Math.max(width - 1, 0)).fill(''))
+    }
+  }
+  return cells
+}
+
+function resolveSnapshotPath (snapshotPath: string, testPath: string | undefined): string {
+  if (!/\.[^./\\]+$/.test(snapshotPath)) {
+    snapshotPath += '.snap'
+  }
+  if (isAbsolute(snapshotPath)) {
+    return snapshotPath
+  } else if (testPath !== undefined) {
+    return join(dirname(testPath), '__snapshots__', snapshotPath)
+  } else {
+    return resolve(snapshotPath)
+  }
+}
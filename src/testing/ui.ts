@@ -0,0 +1,29 @@
+import { DevolveUICore, RenderOptions } from 'core/DevolveUICore'
+import { PromptDevolveUICore, PromptProps } from 'prompt/PromptDevolveUICore'
+import { Renderer, VComponent } from 'core'
+import { HeadlessRendererImpl } from 'renderer/headless'
+
+/** `DevolveUI` which renders into a {@link HeadlessRendererImpl}, so it can be driven in tests via `renderer` */
+export class HeadlessDevolveUI<Props extends object> extends DevolveUICore<Props> {
+  get renderer (): HeadlessRendererImpl {
+    return this.instance as HeadlessRendererImpl
+  }
+
+  protected override mkRenderer (root: () => VComponent, opts?: RenderOptions): Renderer {
+    return new HeadlessRendererImpl(root, opts)
+  }
+}
+
+/** `PromptDevolveUI` which renders into a {@link HeadlessRendererImpl}, so prompt flows can be driven in tests via `renderer` */
+export class HeadlessPromptDevolveUI<
+  Props extends PromptProps<PromptKeys>,
+  PromptKeys extends string | number | symbol = keyof Props['prompts']
+> extends PromptDevolveUICore<Props, PromptKeys> {
+  get renderer (): HeadlessRendererImpl {
+    return this.instance as HeadlessRendererImpl
+  }
+
+  protected override mkRenderer (root: () => VComponent, opts?: RenderOptions): Renderer {
+    return new HeadlessRendererImpl(root, opts)
+  }
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { intrinsics, VNode } from 'core'
+import { VComponent } from 'core/component'
+import { Button } from 'widgets/button'
+import { renderHeadless, sendKeys } from 'testing'
+
+describe('Button', () => {
+  it('is pressed with enter or space while focused, and tab moves between buttons', () => {
+    const pressed: string[] = []
+    const renderer = renderHeadless((): VNode => intrinsics.hbox({ gap: 1 },
+      VComponent('ok', { label: 'ok', autoFocus: true, onPress: () => pressed.push('ok') }, Button),
+      VComponent('cancel', { label: 'cancel', onPress: () => pressed.push('cancel') }, Button),
+      VComponent('help', { label: 'help', disabled: true, onPress: () => pressed.push('help') }, Button)
+    ), {}, { width: 30, height: 1 })
+    expect(renderer.lines[0].trimEnd()).toBe('[ ok ] [ cancel ] [ help ]')
+
+    sendKeys(renderer, 'enter tab space tab enter')
+    expect(pressed).toEqual(['ok', 'cancel'])
+    sendKeys(renderer, 'tab enter')
+    expect(pressed).toEqual(['ok', 'cancel', 'ok'])
+    renderer.dispose()
+  })
+})
@@ -0,0 +1,24 @@
+import { intrinsics, VNode } from 'core/view'
+import { isConfirmKey, textWithBackground, useWidgetInput, WIDGET_COLORS, WidgetProps } from 'widgets/common'
+
+export interface ButtonProps extends WidgetProps {
+  label: string
+  onPress: () => void
+}
+
+/** `[ label ]`, pressed by enter or space. Drawn with an accent background while focused */
+export function Button ({ label, onPress, autoFocus, tabbable, disabled, ...bounds }: ButtonProps): VNode {
+  const isFocused = useWidgetInput({ autoFocus, tabbable, disabled }, key => {
+    if (isConfirmKey(key)) {
+      onPress()
+      return true
+    }
+    return false
+  })
+
+  const text = `[ ${label} ]`
+  if (disabled === true) {
+    return intrinsics.text({ ...bounds, color: WIDGET_COLORS.muted }, text)
+  }
+  return textWithBackground(text, isFocused ? WIDGET_COLORS.onAccent : undefined, isFocused ? WIDGET_COLORS.accent : null, bounds)
+}
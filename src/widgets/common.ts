@@ -0,0 +1,59 @@
+import { Key } from '@raycenity/misc-ts'
+import { BoundsSpec, ColorSpec, intrinsics, VNode } from 'core/view'
+import { useFocus, useInput } from 'core/hooks'
+
+/** Colors shared by the widgets */
+export const WIDGET_COLORS: {
+  /** Focused widget or highlighted option */
+  accent: ColorSpec
+  /** Text on top of `accent` */
+  onAccent: ColorSpec
+  /** Disabled options and unfilled tracks */
+  muted: ColorSpec
+} = {
+  accent: 'cyan',
+  onAccent: 'black',
+  muted: 'gray'
+}
+
+export interface WidgetFocusProps {
+  /** Focus the widget when it's created, if nothing else is focused. Default is false */
+  autoFocus?: boolean
+  /** Whether tab / shift-tab can focus the widget. Default is true */
+  tabbable?: boolean
+  /** Disabled widgets ignore keys and are drawn muted. Default is false */
+  disabled?: boolean
+}
+
+export interface WidgetProps extends WidgetFocusProps, Omit<BoundsSpec, 'width' | 'height'> {
+  key?: string
+}
+
+/**
+ * Makes the current widget focusable and calls `handler` with keys while it's focused and not disabled.
+ * `handler` returns whether it handled the key, otherwise it bubbles. Returns whether the widget is focused
+ */
+export function useWidgetInput (props: WidgetFocusProps, handler: (key: Key) => boolean): boolean {
+  const focus = useFocus({ autoFocus: props.autoFocus, tabbable: props.tabbable })
+  useInput(key => focus.isFocused && props.disabled !== true && handler(key))
+  return focus.isFocused
+}
+
+/** Accent if focused, muted if disabled, otherwise the default */
+export function widgetColor (isFocused: boolean, isDisabled: boolean | undefined): ColorSpec | undefined {
+  return isDisabled === true ? WIDGET_COLORS.muted : isFocused ? WIDGET_COLORS.accent : undefined
+}
+
+/** Whether the key activates a button, toggles a checkbox, etc. */
+export function isConfirmKey (key: Key): boolean {
+  return !key.ctrl && !key.meta && (key.name === 'return' || key.name === 'enter' || key.name === 'space')
+}
+
+/** Text with `background` drawn behind it, or just the text if `null` */
+export function textWithBackground (text: string, color: ColorSpec | undefined, background: ColorSpec | null, bounds: BoundsSpec & { key?: string } = {}): VNode {
+  if (background === null) {
+    return intrinsics.text({ ...bounds, color }, text)
+  }
+  // The color infers its size from the text before it
+  return intrinsics.zbox(bounds, intrinsics.text({ color }, text), intrinsics.color({ color: background }))
+}
@@ -0,0 +1,6 @@
+export * from 'widgets/common'
+export * from 'widgets/select'
+export * from 'widgets/toggle'
+export * from 'widgets/button'
+export * from 'widgets/progress'
+export * from 'widgets/tabs'
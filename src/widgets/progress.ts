@@ -0,0 +1,57 @@
+import { intrinsics, VNode } from 'core/view'
+import { useInterval, useState } from 'core/hooks'
+import { WIDGET_COLORS } from 'widgets/common'
+
+/** Eighths of a cell, for the partially filled cell at the end of a progress bar */
+const PARTIAL_BLOCKS = ['', '▏', '▎', '▍', '▌', '▋', '▊', '▉']
+
+export const DEFAULT_SPINNER_FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏']
+
+export interface ProgressBarProps {
+  key?: string
+  /** From 0 to 1, clamped */
+  value: number
+  /** Width of the bar in columns, not including the percentage. Default is 20 */
+  width?: number
+  /** Show the percentage after the bar. Default is true */
+  showPercent?: boolean
+}
+
+export interface SpinnerProps {
+  key?: string
+  /** Shown after the spinner */
+  label?: string
+  /** Default is `DEFAULT_SPINNER_FRAMES` */
+  frames?: string[]
+  /** Milliseconds per frame. Default is 80 */
+  interval?: number
+}
+
+/** `█████▌░░░░ 55%`. Fills with eighths of a cell so small changes are visible */
+export function ProgressBar ({ key, value, width, showPercent }: ProgressBarProps): VNode {
+  const fraction = Math.min(Math.max(value, 0), 1)
+  const barWidth = width ?? 20
+  const eighths = Math.round(fraction * barWidth * 8)
+  const full = Math.floor(eighths / 8)
+  const partial = PARTIAL_BLOCKS[eighths % 8]
+  const filled = '█'.repeat(full) + partial
+  const empty = '░'.repeat(barWidth - full - (partial === '' ? 0 : 1))
+
+  return intrinsics.hbox({ key },
+    intrinsics.text({ color: WIDGET_COLORS.accent }, filled),
+    intrinsics.text({ color: WIDGET_COLORS.muted }, empty),
+    (showPercent ?? true) ? intrinsics.text({}, ` ${Math.round(fraction * 100)}%`) : null
+  )
+}
+
+/** Animated spinner for indeterminate progress. Frames advance on the renderer's clock */
+export function Spinner ({ key, label, frames, interval }: SpinnerProps): VNode {
+  const frames_ = frames ?? DEFAULT_SPINNER_FRAMES
+  const frame = useState(0)
+  useInterval(interval ?? 80, () => {
+    frame.v = (frame.v + 1) % frames_.length
+  })
+
+  const text = frames_[frame.v % frames_.length]
+  return intrinsics.text({ key, color: WIDGET_COLORS.accent }, label === undefined ? text : `${text} ${label}`)
+}
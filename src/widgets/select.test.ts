@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { useState, VNode } from 'core'
+import { VComponent } from 'core/component'
+import { Lens } from 'core/lens'
+import { MultiSelect, Select, SelectOption } from 'widgets/select'
+import { HeadlessRendererImpl, renderHeadless, sendKeys } from 'testing'
+
+const OPTIONS: Array<SelectOption<string>> = [
+  { label: 'apple', value: 'apple' },
+  { label: 'banana', value: 'banana', disabled: true },
+  { label: 'cherry', value: 'cherry' },
+  { label: 'date', value: 'date' }
+]
+
+function renderSelect (autoFocus: boolean = true): { renderer: HeadlessRendererImpl, value: () => string, submitted: string[] } {
+  let valueLens: Lens<string> | null = null
+  const submitted: string[] = []
+  const renderer = renderHeadless((): VNode => {
+    const value = useState('apple')
+    valueLens = value
+    return VComponent('select', { options: OPTIONS, value, autoFocus, onSubmit: (value: string) => submitted.push(value) }, Select)
+  }, {}, { width: 12, height: 4 })
+  return { renderer, value: () => valueLens!.v, submitted }
+}
+
+const rows = (renderer: HeadlessRendererImpl): string[] => renderer.lines.map(line => line.trimEnd())
+
+describe('Select', () => {
+  it('highlights with up / down, skipping disabled options, and chooses with enter', () => {
+    const { renderer, value, submitted } = renderSelect()
+    expect(rows(renderer)).toEqual(['❯ ● apple', '  ○ banana', '  ○ cherry', '  ○ date'])
+
+    sendKeys(renderer, 'down')
+    expect(rows(renderer)).toEqual(['  ● apple', '  ○ banana', '❯ ○ cherry', '  ○ date'])
+    sendKeys(renderer, 'enter')
+    expect(value()).toBe('cherry')
+    expect(submitted).toEqual(['cherry'])
+    expect(rows(renderer)[2]).toBe('❯ ● cherry')
+
+    sendKeys(renderer, 'up space')
+    expect(value()).toBe('apple')
+    expect(submitted).toEqual(['cherry', 'apple'])
+    renderer.dispose()
+  })
+
+  it('jumps with home / end and moves with j / k, stopping at the ends', () => {
+    const { renderer, value } = renderSelect()
+
+    sendKeys(renderer, 'end enter')
+    expect(value()).toBe('date')
+    sendKeys(renderer, 'j enter')
+    expect(value()).toBe('date')
+    sendKeys(renderer, 'k k enter')
+    expect(value()).toBe('apple')
+    sendKeys(renderer, 'end home enter')
+    expect(value()).toBe('apple')
+    renderer.dispose()
+  })
+
+  it('ignores keys until focused', () => {
+    const { renderer, value } = renderSelect(false)
+    expect(rows(renderer)[0]).toBe('  ● apple')
+
+    sendKeys(renderer, 'down enter')
+    expect(value()).toBe('apple')
+    sendKeys(renderer, 'tab down enter')
+    expect(value()).toBe('cherry')
+    renderer.dispose()
+  })
+})
+
+describe('MultiSelect', () => {
+  it('toggles the highlighted option with space, keeping the options\' order, and submits with enter', () => {
+    let valueLens: Lens<string[]> | null = null
+    const submitted: string[][] = []
+    const renderer = renderHeadless((): VNode => {
+      const value = useState<string[]>([])
+      valueLens = value
+      return VComponent('select', { options: OPTIONS, value, autoFocus: true, onSubmit: (value: string[]) => submitted.push([...value]) }, MultiSelect)
+    }, {}, { width: 14, height: 4 })
+
+    sendKeys(renderer, 'end space home space')
+    expect(valueLens!.v).toEqual(['apple', 'date'])
+    expect(rows(renderer)).toEqual(['❯ [x] apple', '  [ ] banana', '  [ ] cherry', '  [x] date'])
+    sendKeys(renderer, 'down space')
+    expect(valueLens!.v).toEqual(['apple', 'cherry', 'date'])
+    sendKeys(renderer, 'space')
+    expect(valueLens!.v).toEqual(['apple', 'date'])
+
+    sendKeys(renderer, 'enter')
+    expect(submitted).toEqual([['apple', 'date']])
+    renderer.dispose()
+  })
+})
@@ -0,0 +1,125 @@
+import { Key } from '@raycenity/misc-ts'
+import { intrinsics, VNode } from 'core/view'
+import { useState } from 'core/hooks'
+import { Lens } from 'core/lens'
+import { useWidgetInput, widgetColor, WidgetProps } from 'widgets/common'
+
+export interface SelectOption<T> {
+  label: string
+  value: T
+  /** Disabled options are skipped. Default is false */
+  disabled?: boolean
+}
+
+export interface SelectProps<T> extends WidgetProps {
+  options: Array<SelectOption<T>>
+  /** Set to the chosen option's value. The option with the initial value is highlighted first */
+  value: Lens<T>
+  /** Called after an option is chosen with enter or space */
+  onSubmit?: (value: T) => void
+}
+
+export interface MultiSelectProps<T> extends WidgetProps {
+  options: Array<SelectOption<T>>
+  /** Values of the checked options, in the order of `options` */
+  value: Lens<T[]>
+  /** Called on enter */
+  onSubmit?: (value: T[]) => void
+}
+
+/** List of options: up / down (or k / j) highlight, enter or space choose */
+export function Select<T> ({ options, value, onSubmit, autoFocus, tabbable, disabled, ...bounds }: SelectProps<T>): VNode {
+  const highlight = useState(Math.max(0, options.findIndex(option => option.value === value.v)))
+  const isFocused = useWidgetInput({ autoFocus, tabbable, disabled }, key => {
+    if (moveHighlight(key, options, highlight)) {
+      return true
+    } else if (key.name === 'return' || key.name === 'enter' || key.name === 'space') {
+      const option = options[highlight.v]
+      if (option === undefined || option.disabled === true) {
+        return false
+      }
+      value.v = option.value
+      onSubmit?.(option.value)
+      return true
+    }
+    return false
+  })
+
+  return intrinsics.vbox(bounds, ...options.map((option, i) =>
+    optionRow(option, i, i === highlight.v, isFocused, disabled, option.value === value.v ? '● ' : '○ ')
+  ))
+}
+
+/** List of options which can each be checked: up / down (or k / j) highlight, space toggles, enter submits */
+export function MultiSelect<T> ({ options, value, onSubmit, autoFocus, tabbable, disabled, ...bounds }: MultiSelectProps<T>): VNode {
+  const highlight = useState(0)
+  const isFocused = useWidgetInput({ autoFocus, tabbable, disabled }, key => {
+    if (moveHighlight(key, options, highlight)) {
+      return true
+    } else if (key.name === 'space') {
+      const option = options[highlight.v]
+      if (option === undefined || option.disabled === true) {
+        return false
+      }
+      const checked = new Set(value.v)
+      if (checked.has(option.value)) {
+        checked.delete(option.value)
+      } else {
+        checked.add(option.value)
+      }
+      // Keep the order of the options
+      value.v = options.map(option => option.value).filter(value => checked.has(value))
+      return true
+    } else if ((key.name === 'return' || key.name === 'enter') && onSubmit !== undefined) {
+      onSubmit(value.v)
+      return true
+    }
+    return false
+  })
+
+  return intrinsics.vbox(bounds, ...options.map((option, i) =>
+    optionRow(option, i, i === highlight.v, isFocused, disabled, value.v.includes(option.value) ? '[x] ' : '[ ] ')
+  ))
+}
+
+/** Moves the highlight on up / down / k / j / home / end, skipping disabled options. Returns whether the key was one of these */
+export function moveHighlight (key: Key, options: Array<{ disabled?: boolean }>, highlight: Lens<number>): boolean {
+  let delta: number
+  let start = highlight.v
+  switch (key.name) {
+    case 'up':
+    case 'k':
+      delta = -1
+      break
+    case 'down':
+    case 'j':
+      delta = 1
+      break
+    case 'home':
+      delta = 1
+      start = -1
+      break
+    case 'end':
+      delta = -1
+      start = options.length
+      break
+    default:
+      return false
+  }
+  if (key.ctrl || key.meta) {
+    return false
+  }
+
+  for (let i = start + delta; i >= 0 && i < options.length; i += delta) {
+    if (options[i].disabled !== true) {
+      highlight.v = i
+      break
+    }
+  }
+  return true
+}
+
+function optionRow (option: SelectOption<any>, index: number, isHighlighted: boolean, isFocused: boolean, isDisabled: boolean | undefined, marker: string): VNode {
+  const color = widgetColor(isHighlighted && isFocused, option.disabled === true || isDisabled === true)
+  return intrinsics.text({ key: `option-${index}`, color }, `${isHighlighted && isFocused ? '❯' : ' '} ${marker}${option.label}`)
+}
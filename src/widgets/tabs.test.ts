@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { intrinsics, useState, VNode } from 'core'
+import { VComponent } from 'core/component'
+import { Lens } from 'core/lens'
+import { Tab, Tabs } from 'widgets/tabs'
+import { renderHeadless, sendKeys } from 'testing'
+
+const TABS: Tab[] = ['one', 'two', 'three'].map(key => ({ key, label: key, render: () => intrinsics.text({}, `${key} content`) }))
+
+describe('Tabs', () => {
+  it('switches tabs with left / right, wrapping around, and renders only the active tab', () => {
+    let valueLens: Lens<string> | null = null
+    const renderer = renderHeadless((): VNode => {
+      const value = useState('one')
+      valueLens = value
+      return VComponent('tabs', { tabs: TABS, value, autoFocus: true }, Tabs)
+    }, {}, { width: 20, height: 2 })
+    expect(renderer.lines.map(line => line.trimEnd())).toEqual([' one  two  three', 'one content'])
+
+    sendKeys(renderer, 'right')
+    expect(valueLens!.v).toBe('two')
+    expect(renderer.lines[1].trimEnd()).toBe('two content')
+    sendKeys(renderer, 'left left')
+    expect(valueLens!.v).toBe('three')
+    expect(renderer.lines[1].trimEnd()).toBe('three content')
+    // Modified arrows are left for other handlers (e.g. moving by word)
+    sendKeys(renderer, 'ctrl+right')
+    expect(valueLens!.v).toBe('three')
+    renderer.dispose()
+  })
+})
@@ -0,0 +1,53 @@
+import { intrinsics, VJSX, VNode } from 'core/view'
+import { Lens } from 'core/lens'
+import { textWithBackground, useWidgetInput, WIDGET_COLORS, WidgetProps } from 'widgets/common'
+
+export interface Tab {
+  key: string
+  label: string
+  /** Called only for the active tab */
+  render: () => VJSX
+}
+
+export interface TabsProps extends WidgetProps {
+  tabs: Tab[]
+  /** Key of the active tab */
+  value: Lens<string>
+}
+
+/** Row of tab labels with the active tab's content below. left / right switch tabs while focused */
+export function Tabs ({ tabs, value, autoFocus, tabbable, disabled, ...bounds }: TabsProps): VNode {
+  const activeIndex = Math.max(0, tabs.findIndex(tab => tab.key === value.v))
+  const isFocused = useWidgetInput({ autoFocus, tabbable, disabled }, key => {
+    if (key.ctrl || key.meta || tabs.length === 0) {
+      return false
+    }
+    switch (key.name) {
+      case 'left':
+        value.v = tabs[(activeIndex - 1 + tabs.length) % tabs.length].key
+        return true
+      case 'right':
+        value.v = tabs[(activeIndex + 1) % tabs.length].key
+        return true
+      default:
+        return false
+    }
+  })
+
+  const labels = tabs.map((tab, i) => {
+    const text = ` ${tab.label} `
+    if (i !== activeIndex) {
+      return textWithBackground(text, disabled === true ? WIDGET_COLORS.muted : undefined, null, { key: `tab-${tab.key}` })
+    }
+    return textWithBackground(
+      text,
+      isFocused ? WIDGET_COLORS.onAccent : WIDGET_COLORS.accent,
+      isFocused ? WIDGET_COLORS.accent : null,
+      { key: `tab-${tab.key}` }
+    )
+  })
+  return intrinsics.vbox(bounds,
+    intrinsics.hbox({ key: 'tabs' }, ...labels),
+    intrinsics.box({ key: 'content' }, tabs[activeIndex]?.render())
+  )
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { intrinsics, useState, VNode } from 'core'
+import { VComponent } from 'core/component'
+import { Lens } from 'core/lens'
+import { Checkbox, RadioGroup } from 'widgets/toggle'
+import { renderHeadless, sendKeys } from 'testing'
+
+describe('Checkbox', () => {
+  it('toggles with space and enter while focused and not disabled', () => {
+    const values: Array<Lens<boolean>> = []
+    const renderer = renderHeadless((): VNode => {
+      const first = useState(false)
+      const second = useState(false)
+      values.splice(0, 2, first, second)
+      return intrinsics.vbox({},
+        VComponent('first', { label: 'first', value: first, autoFocus: true }, Checkbox),
+        VComponent('second', { label: 'second', value: second, disabled: true }, Checkbox)
+      )
+    }, {}, { width: 12, height: 2 })
+
+    sendKeys(renderer, 'space')
+    expect(values.map(value => value.v)).toEqual([true, false])
+    expect(renderer.lines[0].trimEnd()).toBe('[x] first')
+    sendKeys(renderer, 'enter')
+    expect(values.map(value => value.v)).toEqual([false, false])
+
+    // Disabled widgets can still be focused, but ignore keys
+    sendKeys(renderer, 'tab space')
+    expect(values.map(value => value.v)).toEqual([false, false])
+    renderer.dispose()
+  })
+})
+
+describe('RadioGroup', () => {
+  it('selects the previous / next option with the arrow keys, skipping disabled options', () => {
+    let valueLens: Lens<number> | null = null
+    const renderer = renderHeadless((): VNode => {
+      const value = useState(1)
+      valueLens = value
+      return VComponent('radio', {
+        options: [{ label: 'one', value: 1 }, { label: 'two', value: 2, disabled: true }, { label: 'three', value: 3 }],
+        value,
+        autoFocus: true
+      }, RadioGroup)
+    }, {}, { width: 10, height: 3 })
+    expect(renderer.lines.map(line => line.trimEnd())).toEqual(['(•) one', '( ) two', '( ) three'])
+
+    sendKeys(renderer, 'down')
+    expect(valueLens!.v).toBe(3)
+    expect(renderer.lines.map(line => line.trimEnd())).toEqual(['( ) one', '( ) two', '(•) three'])
+    sendKeys(renderer, 'right')
+    expect(valueLens!.v).toBe(3)
+    sendKeys(renderer, 'left')
+    expect(valueLens!.v).toBe(1)
+    renderer.dispose()
+  })
+})
@@ -0,0 +1,65 @@
+import { intrinsics, VNode } from 'core/view'
+import { Lens } from 'core/lens'
+import { isConfirmKey, useWidgetInput, WIDGET_COLORS, widgetColor, WidgetProps } from 'widgets/common'
+import { SelectOption } from 'widgets/select'
+
+export interface CheckboxProps extends WidgetProps {
+  label: string
+  value: Lens<boolean>
+}
+
+export interface RadioGroupProps<T> extends WidgetProps {
+  options: Array<SelectOption<T>>
+  value: Lens<T>
+  /** Default is 'vertical' */
+  direction?: 'horizontal' | 'vertical'
+}
+
+/** `[x] label`, toggled by enter or space */
+export function Checkbox ({ label, value, autoFocus, tabbable, disabled, ...bounds }: CheckboxProps): VNode {
+  const isFocused = useWidgetInput({ autoFocus, tabbable, disabled }, key => {
+    if (isConfirmKey(key)) {
+      value.v = !value.v
+      return true
+    }
+    return false
+  })
+
+  return intrinsics.text({ ...bounds, color: widgetColor(isFocused, disabled) }, `${value.v ? '[x]' : '[ ]'} ${label}`)
+}
+
+/** `(•) label` for each option. The arrow keys select the previous / next option, skipping disabled options */
+export function RadioGroup<T> ({ options, value, direction, autoFocus, tabbable, disabled, ...bounds }: RadioGroupProps<T>): VNode {
+  const isHorizontal = direction === 'horizontal'
+  const selectedIndex = options.findIndex(option => option.value === value.v)
+  const isFocused = useWidgetInput({ autoFocus, tabbable, disabled }, key => {
+    let delta: number
+    switch (key.name) {
+      case 'up':
+      case 'left':
+        delta = -1
+        break
+      case 'down':
+      case 'right':
+        delta = 1
+        break
+      default:
+        return false
+    }
+    for (let i = selectedIndex + delta; i >= 0 && i < options.length; i += delta) {
+      if (options[i].disabled !== true) {
+        value.v = options[i].value
+        break
+      }
+    }
+    return true
+  })
+
+  const rows = options.map((option, i) => intrinsics.text({
+    key: `option-${i}`,
+    color: option.disabled === true ? WIDGET_COLORS.muted : widgetColor(isFocused && i === selectedIndex, disabled)
+  }, `${i === selectedIndex ? '(•)' : '( )'} ${option.label}`))
+  return isHorizontal
+    ? intrinsics.hbox({ ...bounds, gap: 2 }, ...rows)
+    : intrinsics.vbox(bounds, ...rows)
+}
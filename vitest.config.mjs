@@ -0,0 +1,17 @@
+import { defineConfig } from 'vitest/config'
+import { fileURLToPath } from 'url'
+
+const src = fileURLToPath(new URL('./src', import.meta.url))
+
+export default defineConfig({
+  resolve: {
+    // Same as tsconfig's paths
+    alias: [
+      { find: /^(core|renderer|components|widgets|prompt|testing)(\/.*)?$/, replacement: `${src}/$1$2` }
+    ]
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    setupFiles: ['vitest.setup.mjs']
+  }
+})
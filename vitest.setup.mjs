@@ -0,0 +1,2 @@
+// core/view and core import each other, so core must load first, the way it does from the package's entry point
+import 'core'